@@ -1,11 +1,30 @@
+use std::path::PathBuf;
+use tauri_plugin_fs::FsExt;
+
+// The file dialog grants only the picked file. Task files are watched through
+// their folder and rewritten via a temp file beside them, so grant that folder
+// too - but only for a file the user actually picked.
+#[tauri::command]
+fn allow_task_file_dir(app: tauri::AppHandle, path: PathBuf) -> Result<(), String> {
+    let scope = app.fs_scope();
+    if !scope.is_allowed(&path) {
+        return Err("file was not picked in the dialog".into());
+    }
+    let dir = path.parent().ok_or("file has no parent folder")?;
+    scope.allow_directory(dir, false).map_err(|e| e.to_string())
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_deep_link::init())
         .plugin(tauri_plugin_fs::init())
+        // Keeps folders and files granted through the dialog across restarts
+        .plugin(tauri_plugin_persisted_scope::init())
         .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_notification::init())
+        .invoke_handler(tauri::generate_handler![allow_task_file_dir])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
@@ -1,20 +1,40 @@
 import { useEffect, useCallback, useState } from 'react';
-import { BlockView, SettingsView, HistoryView, ShortcutsOverlay, BreakView, StatsView, AuthView } from './components/views';
+import { BlockView, SettingsView, HistoryView, TasksView, ShortcutsOverlay, BreakView, StatsView, AuthView, MergeAccountModal, SyncDiagnosticsModal, TaskNotesBrowser } from './components/views';
+import type { AuthMode } from './components/views';
 import { ToastContainer } from './components/common';
 import { useSync } from './hooks/useSync';
 import { useSettingsStore } from './store/settingsStore';
 import { useUIStore } from './store/uiStore';
 import { useKeyboard } from './hooks/useKeyboard';
+import { useCompletionQueue } from './hooks/useCompletionQueue';
+import { subscribeEncryptionStatus } from './sync/firebaseSync';
 import './App.css';
 
 export const App = () => {
   const theme = useSettingsStore((s) => s.theme);
   const { showSettings, setShowSettings, showShortcuts, setShowShortcuts, syncState, dataLoaded, currentView, setCurrentView, timerState, isOnBreak } = useUIStore();
   const [showAuth, setShowAuth] = useState(false);
+  const [authMode, setAuthMode] = useState<AuthMode>('signin');
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const { pendingCount, deadLetters } = useCompletionQueue();
 
   // Initialize sync
   useSync();
 
+  // Ask for the passphrase when synced data is encrypted with a key this device lacks
+  useEffect(() => {
+    const unsubscribe = subscribeEncryptionStatus((status) => {
+      if (status === 'locked') {
+        setAuthMode('unlock');
+        setShowAuth(true);
+      }
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
   // Apply theme
   useEffect(() => {
     const root = document.documentElement;
@@ -33,6 +53,13 @@ export const App = () => {
     }
   }, [currentView, setCurrentView, timerState]);
 
+  const toggleTasks = useCallback(() => {
+    // Only allow tasks toggle when timer is idle
+    if (timerState === 'idle') {
+      setCurrentView(currentView === 'tasks' ? 'block' : 'tasks');
+    }
+  }, [currentView, setCurrentView, timerState]);
+
   const toggleStats = useCallback(() => {
     // Only allow stats toggle when timer is idle
     if (timerState === 'idle') {
@@ -46,9 +73,10 @@ export const App = () => {
     'alt+s': () => setShowSettings(true),
     'alt+h': toggleHistory,
     'alt+t': toggleStats,
+    'alt+l': toggleTasks,
     'alt+?': () => setShowShortcuts(true),
     'alt+/': () => setShowShortcuts(true),
-  }, [setShowSettings, setShowShortcuts, toggleHistory, toggleStats]);
+  }, [setShowSettings, setShowShortcuts, toggleHistory, toggleStats, toggleTasks]);
 
   if (!dataLoaded) {
     return (
@@ -64,6 +92,7 @@ export const App = () => {
     if (isOnBreak) return <BreakView />;
     if (currentView === 'history') return <HistoryView />;
     if (currentView === 'stats') return <StatsView />;
+    if (currentView === 'tasks') return <TasksView />;
     return <BlockView />;
   };
 
@@ -71,21 +100,40 @@ export const App = () => {
     <div className="app">
       {renderMainView()}
 
-      {currentView !== 'history' && currentView !== 'stats' && !isOnBreak && (
+      {currentView !== 'history' && currentView !== 'stats' && currentView !== 'tasks' && !isOnBreak && (
         <footer className="app-footer">
           <div className="footer-left">
-            <span className="sync-status">
+            <button
+              className="sync-status"
+              onClick={() => setShowDiagnostics(true)}
+              title="Sync diagnostics"
+            >
               <span className={`sync-dot sync-dot-${syncState}`} />
               {syncState === 'synced' && 'Synced'}
               {syncState === 'syncing' && 'Syncing...'}
               {syncState === 'offline' && 'Offline'}
               {syncState === 'error' && 'Sync error'}
-            </span>
+            </button>
+            {(pendingCount > 0 || deadLetters.length > 0) && (
+              <button
+                className={`completion-badge ${deadLetters.length > 0 ? 'failed' : ''}`}
+                onClick={() => setShowDiagnostics(true)}
+                title="Subete completions not yet saved"
+              >
+                {deadLetters.length > 0 ? `${deadLetters.length} failed` : `${pendingCount} pending`}
+              </button>
+            )}
           </div>
           <div className="footer-center">
             <span className="app-name">Sanjou</span>
           </div>
           <div className="footer-right">
+            <button className="footer-btn" onClick={toggleTasks}>
+              Tasks
+            </button>
+            <button className="footer-btn" onClick={() => setShowNotes(true)}>
+              Notes
+            </button>
             <button className="footer-btn" onClick={() => setShowSettings(true)}>
               Settings
             </button>
@@ -96,13 +144,17 @@ export const App = () => {
       <SettingsView
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
-        onOpenAuth={() => {
+        onOpenAuth={(mode = 'signin') => {
           setShowSettings(false);
+          setAuthMode(mode);
           setShowAuth(true);
         }}
       />
-      <AuthView isOpen={showAuth} onClose={() => setShowAuth(false)} />
+      <AuthView isOpen={showAuth} onClose={() => setShowAuth(false)} initialMode={authMode} />
       <ShortcutsOverlay isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} />
+      <MergeAccountModal />
+      <SyncDiagnosticsModal isOpen={showDiagnostics} onClose={() => setShowDiagnostics(false)} />
+      <TaskNotesBrowser isOpen={showNotes} onClose={() => setShowNotes(false)} />
       <ToastContainer />
     </div>
   );
@@ -1,72 +1,70 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { useSubeteTasks, filterTasksByStatus, sortTasksByPriority, type SubeteTask } from '../../hooks/useSubeteTasks';
+import { TASK_GROUPS, type PickableTask, type TaskGroup } from '../../tasks/taskProvider';
+import { getTaskProvider } from '../../tasks/providers';
 import { showToast } from '../../store/toastStore';
-import './SubeteTaskPicker.css';
+import './TaskSourcePicker.css';
 
-interface SubeteTaskPickerProps {
-  onSelect: (task: SubeteTask) => void;
+interface TaskSourcePickerProps {
+  tasks: PickableTask[];
+  loading: boolean;
+  search: (query: string) => Promise<PickableTask[]>;
+  onSelect: (task: PickableTask) => void;
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   triggerRef?: React.RefObject<HTMLElement>;
 }
 
-type StatusGroup = 'in_progress' | 'today' | 'sprint';
-
-const STATUS_LABELS: Record<StatusGroup, string> = {
+const GROUP_LABELS: Record<TaskGroup, string> = {
   in_progress: 'In Progress',
   today: 'Today',
   sprint: 'Sprint',
+  open: 'Open',
 };
 
-const STATUS_ORDER: StatusGroup[] = ['in_progress', 'today', 'sprint'];
-
-export const SubeteTaskPicker = ({
+export const TaskSourcePicker = ({
+  tasks,
+  loading,
+  search,
   onSelect,
   isOpen,
   onOpenChange,
   triggerRef,
-}: SubeteTaskPickerProps) => {
-  const { tasks: allTasks, loading } = useSubeteTasks();
+}: TaskSourcePickerProps) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<PickableTask[] | null>(null);
   const [highlightedIndex, setHighlightedIndex] = useState(0);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const itemRefs = useRef<Map<number, HTMLDivElement>>(new Map());
 
-  // Get actionable tasks (today, in_progress, sprint)
-  const actionableTasks = useMemo(() => {
-    const filtered = filterTasksByStatus(allTasks, ['today', 'in_progress', 'sprint']);
-    return sortTasksByPriority(filtered);
-  }, [allTasks]);
-
-  // Filter tasks by search query (content and tags)
-  const filteredTasks = useMemo(() => {
-    if (!searchQuery.trim()) return actionableTasks;
-
-    const query = searchQuery.toLowerCase();
-    return actionableTasks.filter((task) => {
-      const contentMatch = task.content.toLowerCase().includes(query);
-      // Check if task has tags property and search within tags
-      const tagsMatch = (task as SubeteTask & { tags?: string[] }).tags?.some(
-        (tag) => tag.toLowerCase().includes(query)
-      );
-      return contentMatch || tagsMatch;
+  // Each source searches its own tasks; an empty query shows everything
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    let current = true;
+    search(searchQuery).then((results) => {
+      if (current) setSearchResults(results);
     });
-  }, [actionableTasks, searchQuery]);
+    return () => {
+      current = false;
+    };
+  }, [searchQuery, search, tasks]);
+
+  const filteredTasks = searchResults ?? tasks;
 
-  // Group tasks by status
+  // Group tasks by section, keeping each source's order
   const groupedTasks = useMemo(() => {
-    const groups: Record<StatusGroup, SubeteTask[]> = {
+    const groups: Record<TaskGroup, PickableTask[]> = {
       in_progress: [],
       today: [],
       sprint: [],
+      open: [],
     };
 
     filteredTasks.forEach((task) => {
-      const status = task.status as StatusGroup;
-      if (groups[status]) {
-        groups[status].push(task);
-      }
+      groups[task.group].push(task);
     });
 
     return groups;
@@ -74,9 +72,9 @@ export const SubeteTaskPicker = ({
 
   // Flatten grouped tasks for keyboard navigation
   const flattenedTasks = useMemo(() => {
-    const flat: SubeteTask[] = [];
-    STATUS_ORDER.forEach((status) => {
-      flat.push(...groupedTasks[status]);
+    const flat: PickableTask[] = [];
+    TASK_GROUPS.forEach((group) => {
+      flat.push(...groupedTasks[group]);
     });
     return flat;
   }, [groupedTasks]);
@@ -165,16 +163,16 @@ export const SubeteTaskPicker = ({
   );
 
   const handleSelectTask = useCallback(
-    (task: SubeteTask) => {
+    (task: PickableTask) => {
       onSelect(task);
       onOpenChange(false);
-      showToast.info(`Selected: ${task.content.slice(0, 40)}${task.content.length > 40 ? '...' : ''}`);
+      showToast.info(`Selected: ${task.title.slice(0, 40)}${task.title.length > 40 ? '...' : ''}`);
     },
     [onSelect, onOpenChange]
   );
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
+  const getStatusBadge = (group: TaskGroup) => {
+    switch (group) {
       case 'in_progress':
         return '>';
       case 'today':
@@ -182,7 +180,7 @@ export const SubeteTaskPicker = ({
       case 'sprint':
         return 'S';
       default:
-        return '?';
+        return '-';
     }
   };
 
@@ -193,16 +191,16 @@ export const SubeteTaskPicker = ({
 
   return (
     <div
-      className="subete-picker-dropdown"
+      className="source-picker-dropdown"
       ref={dropdownRef}
       onKeyDown={handleKeyDown}
     >
       {/* Search Input - Sticky at top */}
-      <div className="subete-picker-search">
+      <div className="source-picker-search">
         <input
           ref={searchInputRef}
           type="text"
-          className="subete-picker-search-input"
+          className="source-picker-search-input"
           placeholder="Search tasks..."
           value={searchQuery}
           onChange={(e) => {
@@ -212,7 +210,7 @@ export const SubeteTaskPicker = ({
         />
         {searchQuery && (
           <button
-            className="subete-picker-search-clear"
+            className="source-picker-search-clear"
             onClick={() => {
               setSearchQuery('');
               searchInputRef.current?.focus();
@@ -225,34 +223,34 @@ export const SubeteTaskPicker = ({
       </div>
 
       {/* Task List */}
-      <div className="subete-picker-list">
+      <div className="source-picker-list">
         {loading ? (
-          <div className="subete-picker-loading">Loading tasks...</div>
+          <div className="source-picker-loading">Loading tasks...</div>
         ) : flattenedTasks.length === 0 ? (
-          <div className="subete-picker-empty">
+          <div className="source-picker-empty">
             {searchQuery ? 'No tasks found' : 'No actionable tasks'}
           </div>
         ) : (
-          STATUS_ORDER.map((status) => {
-            const tasks = groupedTasks[status];
-            if (tasks.length === 0) return null;
+          TASK_GROUPS.map((group) => {
+            const groupTasks = groupedTasks[group];
+            if (groupTasks.length === 0) return null;
 
             return (
-              <div key={status} className="subete-picker-group">
-                <div className="subete-picker-group-header">
-                  {STATUS_LABELS[status]}
-                  <span className="subete-picker-group-count">
-                    {tasks.length}
+              <div key={group} className="source-picker-group">
+                <div className="source-picker-group-header">
+                  {GROUP_LABELS[group]}
+                  <span className="source-picker-group-count">
+                    {groupTasks.length}
                   </span>
                 </div>
-                {tasks.map((task) => {
+                {groupTasks.map((task) => {
                   currentFlatIndex++;
                   const flatIndex = currentFlatIndex;
                   const isHighlighted = flatIndex === highlightedIndex;
 
                   return (
                     <div
-                      key={task.id}
+                      key={`${task.source}:${task.id}`}
                       ref={(el) => {
                         if (el) {
                           itemRefs.current.set(flatIndex, el);
@@ -260,35 +258,37 @@ export const SubeteTaskPicker = ({
                           itemRefs.current.delete(flatIndex);
                         }
                       }}
-                      className={`subete-picker-item status-${task.status} ${
+                      className={`source-picker-item status-${task.group} ${
                         isHighlighted ? 'highlighted' : ''
                       }`}
                       onClick={() => handleSelectTask(task)}
                       onMouseEnter={() => setHighlightedIndex(flatIndex)}
                     >
-                      <span className="subete-picker-status">
-                        {getStatusBadge(task.status)}
+                      <span className="source-picker-status">
+                        {getStatusBadge(task.group)}
                       </span>
-                      <div className="subete-picker-content">
-                        <span className="subete-picker-text">{task.content}</span>
+                      <div className="source-picker-content">
+                        <span className="source-picker-text">{task.title}</span>
                         {/* Show tags if present */}
-                        {(task as SubeteTask & { tags?: string[] }).tags &&
-                          (task as SubeteTask & { tags?: string[] }).tags!.length > 0 && (
-                            <div className="subete-picker-tags">
-                              {(task as SubeteTask & { tags?: string[] }).tags!.slice(0, 3).map((tag) => (
-                                <span key={tag} className="subete-picker-tag">
-                                  #{tag}
-                                </span>
-                              ))}
-                            </div>
-                          )}
+                        {task.tags && task.tags.length > 0 && (
+                          <div className="source-picker-tags">
+                            {task.tags.slice(0, 3).map((tag) => (
+                              <span key={tag} className="source-picker-tag">
+                                #{tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
-                      <div className="subete-picker-meta">
-                        {task.value > 0 && task.time > 0 && (
-                          <span className="subete-picker-ratio">
+                      <div className="source-picker-meta">
+                        {task.value !== undefined && task.time !== undefined && task.value > 0 && task.time > 0 && (
+                          <span className="source-picker-ratio">
                             {task.value}/{task.time}
                           </span>
                         )}
+                        <span className={`source-picker-source source-${task.source}`}>
+                          {getTaskProvider(task.source).label}
+                        </span>
                       </div>
                     </div>
                   );
@@ -300,14 +300,14 @@ export const SubeteTaskPicker = ({
       </div>
 
       {/* Footer with keyboard hints */}
-      <div className="subete-picker-footer">
-        <span className="subete-picker-hint">
+      <div className="source-picker-footer">
+        <span className="source-picker-hint">
           <kbd>{'\u2191'}</kbd><kbd>{'\u2193'}</kbd> navigate
         </span>
-        <span className="subete-picker-hint">
+        <span className="source-picker-hint">
           <kbd>Enter</kbd> select
         </span>
-        <span className="subete-picker-hint">
+        <span className="source-picker-hint">
           <kbd>Esc</kbd> close
         </span>
       </div>
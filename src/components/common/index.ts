@@ -3,4 +3,4 @@ export { Checkbox } from './Checkbox';
 export { Modal } from './Modal';
 export { Timer } from './Timer';
 export { ToastContainer } from './Toast';
-export { SubeteTaskPicker } from './SubeteTaskPicker';
+export { TaskSourcePicker } from './TaskSourcePicker';
@@ -1,31 +1,98 @@
-import { useState, useCallback, FormEvent } from 'react';
+import { useState, useCallback, useEffect, FormEvent } from 'react';
 import { Modal, Button } from '../common';
 import { useAuth } from '../../hooks/useAuth';
+import { useEncryption } from '../../hooks/useEncryption';
 import './AuthView.css';
 
+// Passphrase modes handle end-to-end encryption of synced data
+export type AuthMode = 'signin' | 'signup' | 'unlock' | 'encrypt' | 'change-passphrase';
+
 interface AuthViewProps {
   isOpen: boolean;
   onClose: () => void;
+  initialMode?: AuthMode;
 }
 
-type AuthMode = 'signin' | 'signup';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const TITLES: Record<AuthMode, string> = {
+  signin: 'Sign In',
+  signup: 'Create Account',
+  unlock: 'Unlock Sync',
+  encrypt: 'Encrypt Sync Data',
+  'change-passphrase': 'Change Passphrase',
+};
+
+const DESCRIPTIONS: Record<AuthMode, string> = {
+  signin: 'Sign in to sync your data across devices.',
+  signup: 'Create an account to sync your data across devices.',
+  unlock: 'Your synced data is encrypted. Enter your passphrase to sync on this device.',
+  encrypt: 'Encrypt your synced data with a passphrase. It never leaves your devices - if you forget it, synced data cannot be recovered.',
+  'change-passphrase': 'Re-encrypt your synced data with a new passphrase. Other devices will ask for it on their next sync.',
+};
 
-export const AuthView = ({ isOpen, onClose }: AuthViewProps) => {
-  const [mode, setMode] = useState<AuthMode>('signin');
+export const AuthView = ({ isOpen, onClose, initialMode = 'signin' }: AuthViewProps) => {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
   const [error, setError] = useState<string | null>(null);
 
-  const { signIn, signUp, isLoading } = useAuth();
+  const { signIn, signUp, isLoading: isAuthLoading } = useAuth();
+  const encryption = useEncryption();
+  const isLoading = isAuthLoading || encryption.isWorking;
+  const isPassphraseMode = mode === 'unlock' || mode === 'encrypt' || mode === 'change-passphrase';
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(initialMode);
+    }
+  }, [isOpen, initialMode]);
 
   const resetForm = useCallback(() => {
     setEmail('');
     setPassword('');
     setConfirmPassword('');
+    setCurrentPassphrase('');
     setError(null);
   }, []);
 
+  const handlePassphraseSubmit = useCallback(async () => {
+    if (mode === 'change-passphrase' && !currentPassphrase) {
+      setError('Please enter your current passphrase');
+      return;
+    }
+    if (!password) {
+      setError('Please enter a passphrase');
+      return;
+    }
+
+    let result: { success: boolean; error?: string };
+    if (mode === 'unlock') {
+      result = await encryption.unlock(password);
+    } else {
+      if (password.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError('Passphrases do not match');
+        return;
+      }
+      result = mode === 'encrypt'
+        ? await encryption.enable(password)
+        : await encryption.changePassphrase(currentPassphrase, password);
+    }
+
+    if (result.success) {
+      resetForm();
+      onClose();
+    } else {
+      setError(result.error || 'Something went wrong');
+    }
+  }, [mode, password, confirmPassword, currentPassphrase, encryption, resetForm, onClose]);
+
   const switchMode = useCallback((newMode: AuthMode) => {
     setMode(newMode);
     setError(null);
@@ -35,6 +102,11 @@ export const AuthView = ({ isOpen, onClose }: AuthViewProps) => {
     e.preventDefault();
     setError(null);
 
+    if (isPassphraseMode) {
+      await handlePassphraseSubmit();
+      return;
+    }
+
     if (!email.trim() || !password) {
       setError('Please fill in all fields');
       return;
@@ -66,7 +138,7 @@ export const AuthView = ({ isOpen, onClose }: AuthViewProps) => {
         setError(result.error || 'Sign in failed');
       }
     }
-  }, [mode, email, password, confirmPassword, signIn, signUp, resetForm, onClose]);
+  }, [mode, email, password, confirmPassword, isPassphraseMode, handlePassphraseSubmit, signIn, signUp, resetForm, onClose]);
 
   const handleClose = useCallback(() => {
     resetForm();
@@ -77,104 +149,171 @@ export const AuthView = ({ isOpen, onClose }: AuthViewProps) => {
     <Modal
       isOpen={isOpen}
       onClose={handleClose}
-      title={mode === 'signin' ? 'Sign In' : 'Create Account'}
+      title={TITLES[mode]}
       width="sm"
     >
       <div className="auth-view">
-        <p className="auth-description">
-          {mode === 'signin'
-            ? 'Sign in to sync your data across devices.'
-            : 'Create an account to sync your data across devices.'}
-        </p>
+        <p className="auth-description">{DESCRIPTIONS[mode]}</p>
 
-        <form className="auth-form" onSubmit={handleSubmit}>
-          <div className="auth-field">
-            <label className="auth-label" htmlFor="email">Email</label>
-            <input
-              id="email"
-              type="email"
-              className="auth-input"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="you@example.com"
-              autoComplete="email"
-              autoFocus
-            />
-          </div>
+        {isPassphraseMode ? (
+          <form className="auth-form" onSubmit={handleSubmit}>
+            {mode === 'change-passphrase' && (
+              <div className="auth-field">
+                <label className="auth-label" htmlFor="currentPassphrase">Current Passphrase</label>
+                <input
+                  id="currentPassphrase"
+                  type="password"
+                  className="auth-input"
+                  value={currentPassphrase}
+                  onChange={(e) => setCurrentPassphrase(e.target.value)}
+                  placeholder="Current passphrase"
+                  autoComplete="current-password"
+                  autoFocus
+                />
+              </div>
+            )}
 
-          <div className="auth-field">
-            <label className="auth-label" htmlFor="password">Password</label>
-            <input
-              id="password"
-              type="password"
-              className="auth-input"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter password"
-              autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
-            />
-          </div>
+            <div className="auth-field">
+              <label className="auth-label" htmlFor="passphrase">
+                {mode === 'change-passphrase' ? 'New Passphrase' : 'Passphrase'}
+              </label>
+              <input
+                id="passphrase"
+                type="password"
+                className="auth-input"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter passphrase"
+                autoComplete={mode === 'unlock' ? 'current-password' : 'new-password'}
+                autoFocus={mode !== 'change-passphrase'}
+              />
+            </div>
+
+            {mode !== 'unlock' && (
+              <div className="auth-field">
+                <label className="auth-label" htmlFor="confirmPassphrase">Confirm Passphrase</label>
+                <input
+                  id="confirmPassphrase"
+                  type="password"
+                  className="auth-input"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Confirm passphrase"
+                  autoComplete="new-password"
+                />
+              </div>
+            )}
+
+            {error && <div className="auth-error">{error}</div>}
+
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isLoading}
+              className="auth-submit"
+            >
+              {isLoading
+                ? 'Please wait...'
+                : mode === 'unlock'
+                  ? 'Unlock'
+                  : mode === 'encrypt'
+                    ? 'Encrypt'
+                    : 'Change Passphrase'}
+            </Button>
+          </form>
+        ) : (
+          <form className="auth-form" onSubmit={handleSubmit}>
+            <div className="auth-field">
+              <label className="auth-label" htmlFor="email">Email</label>
+              <input
+                id="email"
+                type="email"
+                className="auth-input"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="email"
+                autoFocus
+              />
+            </div>
 
-          {mode === 'signup' && (
             <div className="auth-field">
-              <label className="auth-label" htmlFor="confirmPassword">Confirm Password</label>
+              <label className="auth-label" htmlFor="password">Password</label>
               <input
-                id="confirmPassword"
+                id="password"
                 type="password"
                 className="auth-input"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                placeholder="Confirm password"
-                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter password"
+                autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
               />
             </div>
-          )}
-
-          {error && <div className="auth-error">{error}</div>}
-
-          <Button
-            type="submit"
-            variant="primary"
-            disabled={isLoading}
-            className="auth-submit"
-          >
-            {isLoading
-              ? 'Please wait...'
-              : mode === 'signin'
-                ? 'Sign In'
-                : 'Create Account'}
-          </Button>
-        </form>
-
-        <div className="auth-switch">
-          {mode === 'signin' ? (
-            <p>
-              Don't have an account?{' '}
-              <button
-                type="button"
-                className="auth-link"
-                onClick={() => switchMode('signup')}
-              >
-                Create one
-              </button>
-            </p>
-          ) : (
-            <p>
-              Already have an account?{' '}
-              <button
-                type="button"
-                className="auth-link"
-                onClick={() => switchMode('signin')}
-              >
-                Sign in
-              </button>
-            </p>
-          )}
-        </div>
+
+            {mode === 'signup' && (
+              <div className="auth-field">
+                <label className="auth-label" htmlFor="confirmPassword">Confirm Password</label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  className="auth-input"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Confirm password"
+                  autoComplete="new-password"
+                />
+              </div>
+            )}
+
+            {error && <div className="auth-error">{error}</div>}
+
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isLoading}
+              className="auth-submit"
+            >
+              {isLoading
+                ? 'Please wait...'
+                : mode === 'signin'
+                  ? 'Sign In'
+                  : 'Create Account'}
+            </Button>
+          </form>
+        )}
+
+        {!isPassphraseMode && (
+          <div className="auth-switch">
+            {mode === 'signin' ? (
+              <p>
+                Don't have an account?{' '}
+                <button
+                  type="button"
+                  className="auth-link"
+                  onClick={() => switchMode('signup')}
+                >
+                  Create one
+                </button>
+              </p>
+            ) : (
+              <p>
+                Already have an account?{' '}
+                <button
+                  type="button"
+                  className="auth-link"
+                  onClick={() => switchMode('signin')}
+                >
+                  Sign in
+                </button>
+              </p>
+            )}
+          </div>
+        )}
 
         <p className="auth-note">
-          Your data is stored locally and works offline.
-          Sign in is only needed for cloud sync.
+          {isPassphraseMode
+            ? 'The passphrase is never sent to the server.'
+            : 'Your data is stored locally and works offline. Sign in is only needed for cloud sync.'}
         </p>
       </div>
     </Modal>
@@ -1,27 +1,52 @@
 import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
-import { Checkbox, SubeteTaskPicker } from '../common';
+import { Checkbox, TaskSourcePicker } from '../common';
 import { TaskNotesModal } from './TaskNotesModal';
+import { ResumeBlockModal, getSessionElapsed } from './ResumeBlockModal';
+import { SubeteTaskActions } from './SubeteTaskActions';
 import { useTimer, formatTime } from '../../hooks/useTimer';
 import { useBlocks } from '../../hooks/useBlocks';
 import { useBreaks } from '../../hooks/useBreaks';
+import { useCycle } from '../../hooks/useCycle';
+import { usePrograms } from '../../hooks/usePrograms';
 import { useAudio } from '../../hooks/useAudio';
 import { useKeyboard } from '../../hooks/useKeyboard';
 import { useDeepLink } from '../../hooks/useDeepLink';
 import { useTaskNotes } from '../../hooks/useTaskNotes';
-import { useSubeteTasks, filterTasksByStatus, sortTasksByPriority, type SubeteTask } from '../../hooks/useSubeteTasks';
+import { taskNoteKey } from '../../sync/taskNotes';
+import { useSubeteTasks } from '../../hooks/useSubeteTasks';
+import { useTaskSources } from '../../hooks/useTaskSources';
+import { useTasks } from '../../hooks/useTasks';
+import { useTaskEstimate } from '../../hooks/useEstimates';
+import { describeEstimate, isOverEstimate } from '../../tasks/estimates';
 import { useNotification } from '../../hooks/useNotification';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useUIStore } from '../../store/uiStore';
 import { showToast } from '../../store/toastStore';
-import { recordCompletion } from '../../sync/completionSync';
-import type { BlockMeta } from '../../models';
+import { getTaskProvider } from '../../tasks/providers';
+import type { PickableTask } from '../../tasks/taskProvider';
+import type { BlockMeta, BlockMode, ActiveBlockSession, InterruptionReason, BreakKind, TaskRef } from '../../models';
 import './BlockView.css';
 
+// The session's task, including sessions saved when only Subete tasks could be picked
+const getSessionTask = (session: ActiveBlockSession): TaskRef | null =>
+  session.task ?? (session.subeteTaskId ? { source: 'subete', id: session.subeteTaskId } : null);
+
 export const BlockView = () => {
   const blockDuration = useSettingsStore((s) => s.blockDuration);
   const breakDuration = useSettingsStore((s) => s.breakDuration);
+  const longBreakDuration = useSettingsStore((s) => s.longBreakDuration);
+  const blockMode = useSettingsStore((s) => s.blockMode);
+  const setBlockMode = useSettingsStore((s) => s.setBlockMode);
+  const flowtimeBreakRatio = useSettingsStore((s) => s.flowtimeBreakRatio);
+  const overtimeEnabled = useSettingsStore((s) => s.overtimeEnabled);
   const [taskText, setTaskText] = useState('');
-  const [selectedSubeteTaskId, setSelectedSubeteTaskId] = useState<string | null>(null);
+  const [selectedTask, setSelectedTask] = useState<TaskRef | null>(null);
+  const [activeDuration, setActiveDuration] = useState<number | null>(null);
+  const [activeMode, setActiveMode] = useState<BlockMode | null>(null);
+  const [completedMinutes, setCompletedMinutes] = useState<number | null>(null);
+  const [overtimeMinutes, setOvertimeMinutes] = useState<number | null>(null);
+  // A flowtime block stopped under a minute, waiting to be thrown away
+  const [discardingShortBlock, setDiscardingShortBlock] = useState(false);
   const [rightNowText, setRightNowText] = useState('');
   const [rightNowExpanded, setRightNowExpanded] = useState(true); // Open by default
   const [altPressed, setAltPressed] = useState(false);
@@ -30,16 +55,23 @@ export const BlockView = () => {
   const taskPickerRef = useRef<HTMLDivElement>(null);
 
   // Task notes
-  const { getNotesForTask, saveNotes, hasNotes } = useTaskNotes();
-
-  // Subete task integration
-  const { tasks: subeteTasks, loading: subeteLoading } = useSubeteTasks();
-
-  // Filter to show only actionable tasks (today, in_progress, sprint)
-  const actionableTasks = useMemo(() => {
-    const filtered = filterTasksByStatus(subeteTasks, ['today', 'in_progress', 'sprint']);
-    return sortTasksByPriority(filtered);
-  }, [subeteTasks]);
+  const { getNote, saveNotes, hasNotes } = useTaskNotes();
+  const noteKey = taskNoteKey(selectedTask, taskText);
+
+  // Tasks from every source, for the picker
+  const taskSources = useTaskSources();
+  const { recordTime: recordTaskTime } = taskSources;
+  const { getTask: getSanjouTask } = useTasks();
+  const taskEstimate = useTaskEstimate(selectedTask);
+
+  // Subete tasks get their own actions once the block is done
+  const { tasks: subeteTasks } = useSubeteTasks();
+  const selectedSubeteTask = useMemo(
+    () => selectedTask?.source === 'subete'
+      ? subeteTasks.find((task) => task.id === selectedTask.id) ?? null
+      : null,
+    [subeteTasks, selectedTask]
+  );
 
   const {
     currentBlockId,
@@ -51,9 +83,23 @@ export const BlockView = () => {
     timerState,
     setIsOnBreak,
     setCurrentBreakId,
+    setActiveSession,
   } = useUIStore();
 
+  const { programs, activeProgram, nextWork, nextBreak, dueBreak, selectProgram, advancePast } = usePrograms();
+
+  // Duration and mode for the block in progress - pinned at start so settings changes don't move them
+  const currentMode = activeMode ?? blockMode;
+  const isFlowtime = currentMode === 'flowtime';
+  // Interval programs drive countdown blocks; flowtime ignores them
+  const programActive = !!activeProgram && !isFlowtime;
+  const countdownDuration = activeProgram && nextWork ? nextWork.segment.minutes : blockDuration;
+  const plannedDuration = activeDuration ?? countdownDuration;
+  // Overtime only extends countdowns - flowtime blocks are open-ended already
+  const overtimeActive = overtimeEnabled && !isFlowtime;
+
   const { startBreak } = useBreaks();
+  const cycle = useCycle();
 
   // Handle deep links from Subete
   const handleDeepLink = useCallback((data: { task?: string; taskId?: string; rightNow?: string }) => {
@@ -63,7 +109,7 @@ export const BlockView = () => {
         setTaskText(data.task);
       }
       if (data.taskId) {
-        setSelectedSubeteTaskId(data.taskId);
+        setSelectedTask({ source: 'subete', id: data.taskId });
       }
       if (data.rightNow) {
         setRightNowText(data.rightNow);
@@ -74,29 +120,71 @@ export const BlockView = () => {
 
   useDeepLink(handleDeepLink);
 
-  const { blocks, todayValidCount, createBlock, completeBlock, invalidateBlock } = useBlocks();
+  const { blocks, todayValidCount, createBlock, completeBlock, invalidateBlock, interruptBlock, logBlockEvent, setBlockOvertime } = useBlocks();
   const { playBlockComplete, playError } = useAudio();
   const { notifyBlockComplete } = useNotification();
 
   const isMetaComplete = Object.values(currentMeta).every(Boolean);
 
-  const handleBlockComplete = useCallback(() => {
+  // Block left running or paused by a previous session (crash, reload, window closed)
+  const [orphanedSession, setOrphanedSession] = useState<ActiveBlockSession | null>(() => {
+    const session = useUIStore.getState().activeSession;
+    if (!session) return null;
+    const block = blocks.find((b) => b.id === session.blockId);
+    return block && block.isValid && !block.completedAt ? session : null;
+  });
+
+  const handleBlockComplete = useCallback((elapsedSeconds: number) => {
     if (currentBlockId) {
-      completeBlock(currentBlockId, true);
+      // Under a minute isn't a block - it doesn't count anywhere, task included
+      if (isFlowtime && elapsedSeconds < 60) {
+        setDiscardingShortBlock(true);
+        return;
+      }
+      // Flowtime blocks last as long as the user worked; countdowns their planned length
+      const minutes = isFlowtime ? Math.round(elapsedSeconds / 60) : plannedDuration;
+      completeBlock(currentBlockId, { celebrated: true, duration: minutes });
+      setCompletedMinutes(minutes);
+      if (programActive && nextWork) advancePast(nextWork.index);
+      setActiveSession(null);
       playBlockComplete();
       notifyBlockComplete();
-      showToast.success(`Block complete! ${blockDuration} minutes of focused work.`);
+      showToast.success(overtimeActive
+        ? `Block complete! ${minutes} minutes done - overtime is counting.`
+        : `Block complete! ${minutes} minutes of focused work.`);
 
-      // Record completion for Subete sync if a task was selected
-      if (selectedSubeteTaskId) {
-        recordCompletion(selectedSubeteTaskId, blockDuration, currentBlockId);
+      // Record the time against the picked task, wherever it came from
+      if (selectedTask && minutes > 0) {
+        recordTaskTime(selectedTask, minutes, currentBlockId);
       }
     }
-  }, [currentBlockId, completeBlock, playBlockComplete, notifyBlockComplete, selectedSubeteTaskId, blockDuration]);
+  }, [currentBlockId, isFlowtime, overtimeActive, programActive, nextWork, advancePast, completeBlock, setActiveSession, playBlockComplete, notifyBlockComplete, selectedTask, recordTaskTime, plannedDuration]);
+
+  const handleOvertimeEnd = useCallback((overtimeSeconds: number) => {
+    const minutes = Math.round(overtimeSeconds / 60);
+    setOvertimeMinutes(minutes);
+    if (currentBlockId && minutes > 0) {
+      setBlockOvertime(currentBlockId, minutes);
+      showToast.info(`${minutes} minutes of overtime recorded.`);
+    }
+  }, [currentBlockId, setBlockOvertime]);
+
+  const handleTimerPause = useCallback(() => {
+    if (currentBlockId) logBlockEvent(currentBlockId, 'pause');
+  }, [currentBlockId, logBlockEvent]);
+
+  const handleTimerResume = useCallback(() => {
+    if (currentBlockId) logBlockEvent(currentBlockId, 'resume');
+  }, [currentBlockId, logBlockEvent]);
 
   const timer = useTimer({
-    duration: blockDuration * 60,
+    duration: plannedDuration * 60,
+    countUp: isFlowtime,
+    overtime: overtimeActive,
     onComplete: handleBlockComplete,
+    onOvertimeEnd: handleOvertimeEnd,
+    onPause: handleTimerPause,
+    onResume: handleTimerResume,
   });
 
   // Sync timer state with UI store
@@ -104,6 +192,74 @@ export const BlockView = () => {
     setTimerState(timer.state);
   }, [timer.state, setTimerState]);
 
+  // Drop a stale session whose block was finished or removed elsewhere
+  useEffect(() => {
+    if (!orphanedSession && useUIStore.getState().timerState === 'idle') {
+      setActiveSession(null);
+    }
+    // Only on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Persist the in-flight block so it can be resumed after a restart
+  const { getSnapshot } = timer;
+  useEffect(() => {
+    if ((timer.state !== 'running' && timer.state !== 'paused') || !currentBlockId) return;
+    const snapshot = getSnapshot();
+    if (!snapshot) return;
+    setActiveSession({
+      ...snapshot,
+      blockId: currentBlockId,
+      mode: currentMode,
+      duration: plannedDuration,
+      taskText,
+      task: selectedTask,
+      rightNowText,
+    });
+  }, [timer.state, getSnapshot, currentBlockId, currentMode, plannedDuration, taskText, selectedTask, rightNowText, setActiveSession]);
+
+  const handleResumeSession = useCallback(() => {
+    if (!orphanedSession) return;
+    setCurrentBlockId(orphanedSession.blockId);
+    setActiveDuration(orphanedSession.duration);
+    setActiveMode(orphanedSession.mode);
+    setTaskText(orphanedSession.taskText);
+    setSelectedTask(getSessionTask(orphanedSession));
+    setRightNowText(orphanedSession.rightNowText);
+    timer.restore(orphanedSession);
+    setOrphanedSession(null);
+  }, [orphanedSession, setCurrentBlockId, timer]);
+
+  const handleCompleteSession = useCallback(() => {
+    if (!orphanedSession) return;
+    const openEnded = orphanedSession.mode === 'flowtime';
+    const plannedMs = orphanedSession.duration * 60 * 1000;
+    const elapsed = getSessionElapsed(orphanedSession);
+    const focusedSeconds = openEnded ? elapsed : Math.min(elapsed, orphanedSession.duration * 60);
+    // The block ended when its time ran out, or when it was paused or abandoned
+    const completedAt = Math.min(
+      Date.now(),
+      orphanedSession.pausedAt ?? Infinity,
+      openEnded ? Infinity : orphanedSession.startedAt + orphanedSession.pausedMs + plannedMs
+    );
+    const minutes = Math.round(focusedSeconds / 60);
+    completeBlock(orphanedSession.blockId, { celebrated: true, completedAt, duration: minutes });
+    const sessionTask = getSessionTask(orphanedSession);
+    if (sessionTask && minutes > 0) {
+      recordTaskTime(sessionTask, minutes, orphanedSession.blockId);
+    }
+    showToast.success(`Block recorded: ${minutes} minutes of focused work.`);
+    setActiveSession(null);
+    setOrphanedSession(null);
+  }, [orphanedSession, completeBlock, setActiveSession, recordTaskTime]);
+
+  const handleDiscardSession = useCallback(() => {
+    if (!orphanedSession) return;
+    invalidateBlock(orphanedSession.blockId);
+    setActiveSession(null);
+    setOrphanedSession(null);
+  }, [orphanedSession, invalidateBlock, setActiveSession]);
+
   // Track Alt key press for showing shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -125,9 +281,9 @@ export const BlockView = () => {
   }, []);
 
   // Handle task selection from picker
-  const handleSelectTask = useCallback((task: SubeteTask) => {
-    setTaskText(task.content);
-    setSelectedSubeteTaskId(task.id);
+  const handleSelectTask = useCallback((task: PickableTask) => {
+    setTaskText(task.title);
+    setSelectedTask({ source: task.source, id: task.id });
     setTaskPickerOpen(false);
   }, []);
 
@@ -136,14 +292,47 @@ export const BlockView = () => {
       playError();
       return;
     }
-    const block = createBlock(undefined, currentMeta);
+    const block = createBlock(selectedTask, taskText, currentMeta, blockMode);
+    if (taskEstimate && isOverEstimate({ ...taskEstimate, actual: taskEstimate.actual + 1 })) {
+      showToast.warning(`This task is past its estimate of ${taskEstimate.estimated} blocks.`);
+    }
     setCurrentBlockId(block.id);
+    setActiveDuration(countdownDuration);
+    setActiveMode(blockMode);
     timer.start();
-  }, [isMetaComplete, createBlock, currentMeta, setCurrentBlockId, timer, playError]);
+  }, [isMetaComplete, createBlock, selectedTask, taskText, taskEstimate, currentMeta, blockMode, setCurrentBlockId, countdownDuration, timer, playError]);
+
+  // Task chosen in the Tasks view: pick it up, and start once it's selected
+  const [startOnTask, setStartOnTask] = useState(false);
+  useEffect(() => {
+    const { selectedTaskId, setSelectedTaskId, timerState: currentTimerState } = useUIStore.getState();
+    if (!selectedTaskId) return;
+    setSelectedTaskId(null);
+    const task = getSanjouTask(selectedTaskId);
+    if (!task || orphanedSession || currentTimerState !== 'idle') return;
+    setTaskText(task.title);
+    setSelectedTask({ source: 'sanjou', id: task.id });
+    setStartOnTask(true);
+    // Only on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!startOnTask || selectedTask?.source !== 'sanjou') return;
+    setStartOnTask(false);
+    if (isMetaComplete) {
+      handleStart();
+    } else {
+      showToast.info('Tick off the checklist to start the block.');
+    }
+  }, [startOnTask, selectedTask, isMetaComplete, handleStart]);
 
   const handleToggle = useCallback(() => {
     if (timer.state === 'idle') {
       handleStart();
+    } else if (timer.isOvertime) {
+      // The block is already complete - pausing overtime just ends it
+      timer.finish();
     } else {
       timer.toggle();
     }
@@ -154,38 +343,63 @@ export const BlockView = () => {
       invalidateBlock(currentBlockId);
       setCurrentBlockId(null);
     }
+    setActiveSession(null);
+    setActiveDuration(null);
+    setActiveMode(null);
+    setCompletedMinutes(null);
+    setOvertimeMinutes(null);
     timer.reset();
     resetMeta();
-  }, [currentBlockId, invalidateBlock, setCurrentBlockId, timer, resetMeta]);
+  }, [currentBlockId, invalidateBlock, setCurrentBlockId, setActiveSession, timer, resetMeta]);
 
-  const handleMarkInterrupted = useCallback(() => {
+  useEffect(() => {
+    if (!discardingShortBlock) return;
+    setDiscardingShortBlock(false);
+    handleReset();
+    showToast.info('Stopped under a minute - the block was discarded.');
+  }, [discardingShortBlock, handleReset]);
+
+  const handleMarkInterrupted = useCallback((reason?: InterruptionReason) => {
     if (currentBlockId) {
-      invalidateBlock(currentBlockId);
+      interruptBlock(currentBlockId, reason);
       setCurrentBlockId(null);
     }
+    setActiveSession(null);
+    setActiveDuration(null);
+    setActiveMode(null);
+    setCompletedMinutes(null);
+    setOvertimeMinutes(null);
     timer.reset();
     resetMeta();
-  }, [currentBlockId, invalidateBlock, setCurrentBlockId, timer, resetMeta]);
+  }, [currentBlockId, interruptBlock, setCurrentBlockId, setActiveSession, timer, resetMeta]);
 
   const handleNextBlock = useCallback(() => {
     setCurrentBlockId(null);
+    setActiveDuration(null);
+    setActiveMode(null);
+    setCompletedMinutes(null);
+    setOvertimeMinutes(null);
     timer.reset();
     resetMeta();
     setTaskText('');
-    setSelectedSubeteTaskId(null);
+    setSelectedTask(null);
     setRightNowText('');
   }, [setCurrentBlockId, timer, resetMeta]);
 
-  const handleStartBreak = useCallback((duration: number) => {
-    const breakItem = startBreak(duration);
+  const handleStartBreak = useCallback((duration: number, kind: BreakKind) => {
+    const breakItem = startBreak(duration, kind);
     setCurrentBreakId(breakItem.id);
     setIsOnBreak(true);
     // Also reset the block state
     setCurrentBlockId(null);
+    setActiveDuration(null);
+    setActiveMode(null);
+    setCompletedMinutes(null);
+    setOvertimeMinutes(null);
     timer.reset();
     resetMeta();
     setTaskText('');
-    setSelectedSubeteTaskId(null);
+    setSelectedTask(null);
     setRightNowText('');
   }, [startBreak, setCurrentBreakId, setIsOnBreak, setCurrentBlockId, timer, resetMeta]);
 
@@ -198,6 +412,13 @@ export const BlockView = () => {
     { key: 'celebrated', label: 'Celebrate', shortcut: '5' },
   ];
 
+  const interruptionReasons: { reason: InterruptionReason; label: string }[] = [
+    { reason: 'internal', label: 'Self' },
+    { reason: 'external', label: 'External' },
+    { reason: 'phone', label: 'Phone' },
+    { reason: 'person', label: 'Person' },
+  ];
+
   // Toggle meta item by index
   const toggleMeta = useCallback((index: number) => {
     if (timer.state !== 'idle') return;
@@ -207,6 +428,23 @@ export const BlockView = () => {
     }
   }, [timer.state, currentMeta, setMetaItem]);
 
+  // Flowtime breaks scale with the work just done; a due long break takes precedence
+  const shortBreakDuration = isFlowtime && completedMinutes !== null
+    ? Math.max(1, Math.round(completedMinutes * flowtimeBreakRatio))
+    : breakDuration;
+  // A program's own break segment replaces the usual choice
+  const programBreak = programActive ? dueBreak : null;
+  const proposedBreak: { duration: number; kind: BreakKind } = programBreak
+    ? { duration: programBreak.segment.minutes, kind: programBreak.segment.kind as BreakKind }
+    : cycle.nextBreakKind === 'long'
+      ? { duration: longBreakDuration, kind: 'long' }
+      : { duration: shortBreakDuration, kind: 'short' };
+
+  const handleStartProposedBreak = useCallback(() => {
+    if (programBreak) advancePast(programBreak.index);
+    handleStartBreak(proposedBreak.duration, proposedBreak.kind);
+  }, [programBreak, advancePast, handleStartBreak, proposedBreak.duration, proposedBreak.kind]);
+
   // Global keyboard shortcuts (Alt+key)
   useKeyboard({
     'alt+space': handleToggle,
@@ -215,6 +453,8 @@ export const BlockView = () => {
         handleStart();
       } else if (timer.state === 'completed') {
         handleNextBlock();
+      } else if (isFlowtime || timer.isOvertime) {
+        timer.finish();
       }
     },
     'alt+r': () => {
@@ -223,13 +463,18 @@ export const BlockView = () => {
       }
     },
     'alt+i': () => {
-      if (timer.state === 'running') {
+      if (timer.state === 'running' && !timer.isOvertime) {
         handleMarkInterrupted();
       }
     },
     'alt+b': () => {
       if (timer.state === 'completed') {
-        handleStartBreak(breakDuration);
+        handleStartProposedBreak();
+      }
+    },
+    'alt+f': () => {
+      if (timer.state === 'idle') {
+        setBlockMode(blockMode === 'flowtime' ? 'countdown' : 'flowtime');
       }
     },
     'alt+1': () => toggleMeta(0),
@@ -242,7 +487,7 @@ export const BlockView = () => {
         setNotesModalOpen(true);
       }
     },
-  }, [handleToggle, handleStart, handleReset, handleMarkInterrupted, handleNextBlock, handleStartBreak, timer.state, isMetaComplete, toggleMeta, breakDuration, taskText]);
+  }, [handleToggle, handleStart, handleReset, handleMarkInterrupted, handleNextBlock, handleStartProposedBreak, timer, isFlowtime, isMetaComplete, toggleMeta, blockMode, setBlockMode, taskText]);
 
   // Recent blocks for sidebar (sorted newest first)
   const recentBlocks = useMemo(() => {
@@ -259,12 +504,28 @@ export const BlockView = () => {
     }).replace(' ', '');
   };
 
+  // The block in progress, or about to start, counts towards the estimate; a completed one is already in it
+  const estimateBlock = taskEstimate ? taskEstimate.actual + (timer.state === 'completed' ? 0 : 1) : 0;
+  const renderEstimate = () => taskEstimate && (
+    <div className={`task-estimate ${estimateBlock > taskEstimate.estimated ? 'over' : ''}`}>
+      {describeEstimate(taskEstimate, estimateBlock)}
+    </div>
+  );
+
   // Render the history sidebar
   const renderSidebar = () => (
     <aside className="history-sidebar">
       <div className="sidebar-header">
         <div className="sidebar-tally">{todayValidCount}</div>
         <div className="sidebar-label">today</div>
+        <div
+          className={`cycle-pips ${cycle.isLongBreakDue ? 'due' : ''}`}
+          title={`${cycle.count}/${cycle.target} blocks until a long break`}
+        >
+          {Array.from({ length: cycle.target }, (_, i) => (
+            <span key={i} className={`cycle-pip ${i < cycle.count ? 'filled' : ''}`} />
+          ))}
+        </div>
       </div>
       <div className="sidebar-list">
         {timer.state !== 'idle' && timer.state !== 'completed' && (
@@ -320,6 +581,39 @@ export const BlockView = () => {
 
       {/* Start Button */}
       <div className="start-section">
+        <div className="mode-toggle" title="Alt+F to switch">
+          <button
+            className={`mode-option ${blockMode === 'countdown' ? 'active' : ''}`}
+            onClick={() => setBlockMode('countdown')}
+          >
+            {countdownDuration} min
+          </button>
+          <button
+            className={`mode-option ${blockMode === 'flowtime' ? 'active' : ''}`}
+            onClick={() => setBlockMode('flowtime')}
+          >
+            {altPressed && <span className="shortcut-badge">F</span>}
+            Flowtime
+          </button>
+        </div>
+        {blockMode === 'countdown' && (
+          <select
+            className="program-select"
+            value={activeProgram?.id ?? ''}
+            onChange={(e) => selectProgram(e.target.value || null)}
+            title="Interval program"
+          >
+            <option value="">Standard intervals</option>
+            {programs.map((program) => (
+              <option key={program.id} value={program.id}>{program.name}</option>
+            ))}
+          </select>
+        )}
+        {programActive && nextBreak && (
+          <span className="program-next">
+            then {nextBreak.segment.minutes} min {nextBreak.segment.kind === 'long' ? 'long ' : ''}break
+          </span>
+        )}
         <button
           className="start-btn"
           onClick={handleStart}
@@ -340,24 +634,27 @@ export const BlockView = () => {
           <div className="task-header-actions">
             {taskText.trim() && (
               <button
-                className={`task-notes-btn ${hasNotes(taskText.trim()) ? 'has-notes' : ''}`}
+                className={`task-notes-btn ${hasNotes(noteKey) ? 'has-notes' : ''}`}
                 onClick={() => setNotesModalOpen(true)}
                 title="Task notes (Alt+N)"
               >
                 {altPressed && <span className="shortcut-badge">N</span>}
-                {hasNotes(taskText.trim()) ? 'Notes' : '+ Notes'}
+                {hasNotes(noteKey) ? 'Notes' : '+ Notes'}
               </button>
             )}
-            {actionableTasks.length > 0 && (
+            {taskSources.tasks.length > 0 && (
               <div className="task-picker-container" ref={taskPickerRef}>
                 <button
                   className="task-picker-btn"
                   onClick={() => setTaskPickerOpen(!taskPickerOpen)}
-                  title="Pick from Subete tasks"
+                  title="Pick a task"
                 >
-                  {subeteLoading ? '...' : `Pick (${actionableTasks.length})`}
+                  {taskSources.loading ? '...' : `Pick (${taskSources.tasks.length})`}
                 </button>
-                <SubeteTaskPicker
+                <TaskSourcePicker
+                  tasks={taskSources.tasks}
+                  loading={taskSources.loading}
+                  search={taskSources.search}
                   isOpen={taskPickerOpen}
                   onOpenChange={setTaskPickerOpen}
                   onSelect={handleSelectTask}
@@ -371,9 +668,16 @@ export const BlockView = () => {
           className="task-input"
           placeholder="What are you working on?"
           value={taskText}
-          onChange={(e) => setTaskText(e.target.value)}
+          onChange={(e) => {
+            setTaskText(e.target.value);
+            // Text that no longer names the picked task unlinks it, so other work isn't credited to it
+            const text = e.target.value.trim();
+            const pickedTitle = taskSources.getTask(selectedTask)?.title.trim();
+            if (!text || (pickedTitle !== undefined && text !== pickedTitle)) setSelectedTask(null);
+          }}
           rows={2}
         />
+        {renderEstimate()}
       </section>
 
       {/* Right Now - Collapsed or Expanded */}
@@ -404,9 +708,18 @@ export const BlockView = () => {
   const renderRunningView = () => (
     <div className="running-view">
       {/* Timer - Prominent */}
-      <div className="timer-prominent">
-        <span className="timer-time">{formatTime(timer.remaining)}</span>
-        <span className="timer-label">Focus</span>
+      <div className={`timer-prominent ${timer.isOvertime ? 'overtime' : ''}`}>
+        {timer.isOvertime ? (
+          <>
+            <span className="timer-time">+{formatTime(timer.overtime)}</span>
+            <span className="timer-label">Overtime</span>
+          </>
+        ) : (
+          <>
+            <span className="timer-time">{formatTime(isFlowtime ? timer.elapsed : timer.remaining)}</span>
+            <span className="timer-label">{isFlowtime ? 'Flow' : 'Focus'}</span>
+          </>
+        )}
         <div className="timer-progress">
           <div
             className="timer-progress-fill"
@@ -420,6 +733,7 @@ export const BlockView = () => {
         <div className="task-display">
           <div className="task-display-title">Task</div>
           <div className="task-display-text">{taskText}</div>
+          {renderEstimate()}
         </div>
       )}
 
@@ -435,13 +749,36 @@ export const BlockView = () => {
         />
       </section>
 
-      {/* Interrupt Button */}
-      <div className="interrupt-section">
-        <button className="interrupt-btn" onClick={handleMarkInterrupted}>
-          {altPressed && <span className="shortcut-badge danger">I</span>}
-          Interrupted
-        </button>
-      </div>
+      {(isFlowtime || timer.isOvertime) && (
+        <div className="stop-section">
+          <button className="stop-btn" onClick={timer.finish}>
+            {altPressed && <span className="shortcut-badge">Enter</span>}
+            {timer.isOvertime ? 'Stop Overtime' : 'Stop & Complete'}
+          </button>
+        </div>
+      )}
+
+      {/* Interrupt Button - the block is already complete once in overtime */}
+      {!timer.isOvertime && (
+        <div className="interrupt-section">
+          <button className="interrupt-btn" onClick={() => handleMarkInterrupted()}>
+            {altPressed && <span className="shortcut-badge danger">I</span>}
+            Interrupted
+          </button>
+          <div className="interrupt-reasons">
+            {interruptionReasons.map(({ reason, label }) => (
+              <button
+                key={reason}
+                className="interrupt-reason-btn"
+                onClick={() => handleMarkInterrupted(reason)}
+                title={`Interrupted: ${label.toLowerCase()}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 
@@ -450,7 +787,7 @@ export const BlockView = () => {
     <div className="paused-view">
       {/* Timer - Paused style */}
       <div className="timer-paused">
-        <span className="timer-time">{formatTime(timer.remaining)}</span>
+        <span className="timer-time">{formatTime(isFlowtime ? timer.elapsed : timer.remaining)}</span>
         <span className="timer-label">Paused</span>
         <div className="timer-progress">
           <div
@@ -465,6 +802,7 @@ export const BlockView = () => {
         <div className="task-display">
           <div className="task-display-title">Task</div>
           <div className="task-display-text">{taskText}</div>
+          {renderEstimate()}
         </div>
       )}
 
@@ -485,6 +823,12 @@ export const BlockView = () => {
           {altPressed && <span className="shortcut-badge">Space</span>}
           Resume
         </button>
+        {isFlowtime && (
+          <button className="pause-btn finish" onClick={timer.finish}>
+            {altPressed && <span className="shortcut-badge">Enter</span>}
+            Complete
+          </button>
+        )}
         <button className="pause-btn reset" onClick={handleReset}>
           {altPressed && <span className="shortcut-badge">R</span>}
           Reset
@@ -500,29 +844,58 @@ export const BlockView = () => {
         <div className="complete-icon">✓</div>
         <div className="complete-title">Block Complete!</div>
         <div className="complete-duration">
-          {blockDuration}:00 of focused work
+          {formatTime((completedMinutes ?? plannedDuration) * 60)} of focused work
         </div>
+        {overtimeMinutes !== null && overtimeMinutes > 0 && (
+          <div className="complete-overtime">+{overtimeMinutes} min overtime</div>
+        )}
+        {renderEstimate()}
       </div>
 
+      {selectedSubeteTask ? (
+        <SubeteTaskActions task={selectedSubeteTask} />
+      ) : selectedTask && !getTaskProvider(selectedTask.source).readOnly && taskSources.getTask(selectedTask) && (
+        <button className="complete-task-btn" onClick={() => taskSources.complete(selectedTask)}>
+          Mark done in {getTaskProvider(selectedTask.source).label}
+        </button>
+      )}
+
       <div className="complete-actions">
-        <div className="break-options">
-          <span className="break-label">Take a break?</span>
-          <div className="break-buttons">
-            <button
-              className="break-option-btn"
-              onClick={() => handleStartBreak(breakDuration)}
-            >
-              {altPressed && <span className="shortcut-badge">B</span>}
-              {breakDuration} min
-            </button>
-            <button
-              className="break-option-btn"
-              onClick={() => handleStartBreak(15)}
-            >
-              15 min
-            </button>
+        {programBreak && activeProgram ? (
+          <div className="break-options">
+            <span className="break-label">Next in {activeProgram.name}</span>
+            <div className="break-buttons">
+              <button className="break-option-btn suggested" onClick={handleStartProposedBreak}>
+                {altPressed && <span className="shortcut-badge">B</span>}
+                {programBreak.segment.minutes} min {programBreak.segment.kind === 'long' ? 'long ' : ''}break
+              </button>
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="break-options">
+            <span className="break-label">
+              {cycle.isLongBreakDue
+                ? `${cycle.count} blocks done - time for a long break`
+                : `Take a break? (${cycle.count}/${cycle.target} to long break)`}
+            </span>
+            <div className="break-buttons">
+              <button
+                className={`break-option-btn ${cycle.nextBreakKind === 'short' ? 'suggested' : ''}`}
+                onClick={() => handleStartBreak(shortBreakDuration, 'short')}
+              >
+                {altPressed && cycle.nextBreakKind === 'short' && <span className="shortcut-badge">B</span>}
+                {shortBreakDuration} min
+              </button>
+              <button
+                className={`break-option-btn ${cycle.nextBreakKind === 'long' ? 'suggested' : ''}`}
+                onClick={() => handleStartBreak(longBreakDuration, 'long')}
+              >
+                {altPressed && cycle.nextBreakKind === 'long' && <span className="shortcut-badge">B</span>}
+                {longBreakDuration} min long
+              </button>
+            </div>
+          </div>
+        )}
         <div className="or-divider">or</div>
         <button className="next-block-btn" onClick={handleNextBlock}>
           {altPressed && <span className="shortcut-badge">Enter</span>}
@@ -540,6 +913,7 @@ export const BlockView = () => {
         <footer className="footer-hints">
           <span className="hint"><kbd>Alt</kbd>+<kbd>1-5</kbd> meta</span>
           <span className="hint"><kbd>Alt</kbd>+<kbd>Enter</kbd> start</span>
+          <span className="hint"><kbd>Alt</kbd>+<kbd>F</kbd> mode</span>
           <span className="hint"><kbd>Alt</kbd>+<kbd>S</kbd> settings</span>
         </footer>
       );
@@ -547,8 +921,9 @@ export const BlockView = () => {
     if (timer.state === 'running') {
       return (
         <footer className="footer-hints">
-          <span className="hint"><kbd>Alt</kbd>+<kbd>Space</kbd> pause</span>
-          <span className="hint"><kbd>Alt</kbd>+<kbd>I</kbd> interrupt</span>
+          {!timer.isOvertime && <span className="hint"><kbd>Alt</kbd>+<kbd>Space</kbd> pause</span>}
+          {!timer.isOvertime && <span className="hint"><kbd>Alt</kbd>+<kbd>I</kbd> interrupt</span>}
+          {(isFlowtime || timer.isOvertime) && <span className="hint"><kbd>Alt</kbd>+<kbd>Enter</kbd> stop</span>}
         </footer>
       );
     }
@@ -572,20 +947,20 @@ export const BlockView = () => {
   };
 
   // Create a pseudo task object for the notes modal
-  const currentTaskForNotes = taskText.trim() ? {
-    id: taskText.trim(),
+  const currentTaskForNotes = noteKey ? {
+    id: noteKey,
     title: taskText.trim(),
     subtasks: [],
     completed: false,
     createdAt: Date.now(),
     modifiedAt: Date.now(),
     blocksSpent: 0,
-    notes: getNotesForTask(taskText.trim()),
+    notes: getNote(noteKey)?.notes,
   } : null;
 
-  const handleSaveNotes = useCallback((taskContent: string, notes: string) => {
-    saveNotes(taskContent, notes);
-  }, [saveNotes]);
+  const handleSaveNotes = useCallback((key: string, notes: string) => {
+    saveNotes(key, taskText.trim(), notes);
+  }, [saveNotes, taskText]);
 
   return (
     <div className={`block-view ${altPressed ? 'alt-active' : ''}`}>
@@ -595,7 +970,7 @@ export const BlockView = () => {
         {timer.state === 'idle' && renderIdleView()}
         {timer.state === 'running' && renderRunningView()}
         {timer.state === 'paused' && renderPausedView()}
-        {timer.state === 'completed' && renderCompletedView()}
+        {timer.state === 'completed' && !discardingShortBlock && renderCompletedView()}
       </main>
 
       {renderFooterHints()}
@@ -606,6 +981,14 @@ export const BlockView = () => {
         task={currentTaskForNotes}
         onSave={handleSaveNotes}
       />
+
+      <ResumeBlockModal
+        session={orphanedSession}
+        onResume={handleResumeSession}
+        onCompleteRetroactively={handleCompleteSession}
+        onDiscard={handleDiscardSession}
+        onDismiss={() => setOrphanedSession(null)}
+      />
     </div>
   );
 };
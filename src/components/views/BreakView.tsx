@@ -4,7 +4,9 @@ import { useBreaks } from '../../hooks/useBreaks';
 import { useAudio } from '../../hooks/useAudio';
 import { useKeyboard } from '../../hooks/useKeyboard';
 import { useNotification } from '../../hooks/useNotification';
+import { usePrograms } from '../../hooks/usePrograms';
 import { useUIStore } from '../../store/uiStore';
+import { showToast } from '../../store/toastStore';
 import './BreakView.css';
 
 export const BreakView = () => {
@@ -21,6 +23,7 @@ export const BreakView = () => {
   const { endBreak, getBreak } = useBreaks();
   const { playBlockComplete } = useAudio();
   const { notifyBreakComplete } = useNotification();
+  const { activeProgram, nextWork } = usePrograms();
 
   const currentBreak = currentBreakId ? getBreak(currentBreakId) : null;
   const breakDuration = currentBreak?.duration || 5;
@@ -31,7 +34,14 @@ export const BreakView = () => {
       playBlockComplete();
       notifyBreakComplete();
     }
-  }, [currentBreakId, endBreak, notes, playBlockComplete, notifyBreakComplete]);
+    // A program carries straight on to its next work segment
+    if (activeProgram && nextWork) {
+      showToast.info(`${activeProgram.name}: next block is ${nextWork.segment.minutes} min.`);
+      setCurrentBreakId(null);
+      setIsOnBreak(false);
+      setCurrentView('block');
+    }
+  }, [currentBreakId, endBreak, notes, playBlockComplete, notifyBreakComplete, activeProgram, nextWork, setCurrentBreakId, setIsOnBreak, setCurrentView]);
 
   const timer = useTimer({
     duration: breakDuration * 60,
@@ -81,7 +91,9 @@ export const BreakView = () => {
   return (
     <div className={`break-view ${altPressed ? 'alt-active' : ''}`}>
       <header className="break-header">
-        <h1 className="break-title">Break Time</h1>
+        <h1 className="break-title">
+          {currentBreak?.kind === 'long' ? 'Long Break' : 'Break Time'}
+        </h1>
       </header>
 
       <main className="break-content">
@@ -1,8 +1,12 @@
 import { useMemo } from 'react';
-import { useBlocks } from '../../hooks/useBlocks';
+import { useBlocks, getBlockTiming, getInterruptionReason, getBlockTask } from '../../hooks/useBlocks';
 import { useTasks } from '../../hooks/useTasks';
+import { useSubeteTasks } from '../../hooks/useSubeteTasks';
+import { getTaskProvider } from '../../tasks/providers';
 import { useUIStore } from '../../store/uiStore';
 import { useKeyboard } from '../../hooks/useKeyboard';
+import { getToday, addDays, parseDayKey, getBlockDay } from '../../utils/date';
+import { useSettingsStore } from '../../store/settingsStore';
 import type { Block } from '../../models';
 import './HistoryView.css';
 
@@ -14,13 +18,12 @@ interface GroupedBlocks {
 }
 
 const formatDate = (dateStr: string): string => {
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+  const today = getToday();
 
   if (dateStr === today) return 'Today';
-  if (dateStr === yesterday) return 'Yesterday';
+  if (dateStr === addDays(today, -1)) return 'Yesterday';
 
-  const date = new Date(dateStr + 'T00:00:00');
+  const date = parseDayKey(dateStr);
   return date.toLocaleDateString('en-US', {
     weekday: 'short',
     month: 'short',
@@ -36,9 +39,8 @@ const formatTime = (timestamp: number): string => {
   });
 };
 
-const formatDuration = (startedAt: number, completedAt?: number): string => {
-  if (!completedAt) return 'incomplete';
-  const seconds = Math.round((completedAt - startedAt) / 1000);
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
   const minutes = Math.floor(seconds / 60);
   const secs = seconds % 60;
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
@@ -47,7 +49,9 @@ const formatDuration = (startedAt: number, completedAt?: number): string => {
 export const HistoryView = () => {
   const { blocks } = useBlocks();
   const { getTask } = useTasks();
+  const { tasks: subeteTasks } = useSubeteTasks();
   const setCurrentView = useUIStore((s) => s.setCurrentView);
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
 
   const handleBack = () => setCurrentView('block');
 
@@ -65,8 +69,9 @@ export const HistoryView = () => {
     const sortedBlocks = [...blocks].sort((a, b) => b.startedAt - a.startedAt);
 
     for (const block of sortedBlocks) {
-      const existing = groups.get(block.date) || [];
-      groups.set(block.date, [...existing, block]);
+      const date = getBlockDay(block, dayStartHour);
+      const existing = groups.get(date) || [];
+      groups.set(date, [...existing, block]);
     }
 
     // Convert to array and sort by date descending
@@ -81,7 +86,15 @@ export const HistoryView = () => {
         validCount: dayBlocks.filter((b) => b.isValid && b.completedAt).length,
       };
     });
-  }, [blocks]);
+  }, [blocks, dayStartHour]);
+
+  // The task's current title where it can still be looked up, else the text the block was started with
+  const getBlockTaskTitle = (block: Block): string | undefined => {
+    const ref = getBlockTask(block);
+    if (ref?.source === 'sanjou') return getTask(ref.id)?.title ?? block.taskText;
+    if (ref?.source === 'subete') return subeteTasks.find((t) => t.id === ref.id)?.content ?? block.taskText;
+    return block.taskText;
+  };
 
   const _totalBlocks = blocks.length;
   void _totalBlocks; // Reserved for future use
@@ -117,7 +130,9 @@ export const HistoryView = () => {
               </header>
               <ul className="day-blocks">
                 {dayBlocks.map((block) => {
-                  const task = block.taskId ? getTask(block.taskId) : null;
+                  const taskRef = getBlockTask(block);
+                  const timing = getBlockTiming(block);
+                  const reason = getInterruptionReason(block);
                   return (
                     <li
                       key={block.id}
@@ -128,12 +143,28 @@ export const HistoryView = () => {
                       </span>
                       <span className="block-time">{formatTime(block.startedAt)}</span>
                       <span className="block-task">
-                        {task?.title || '(no task)'}
+                        {getBlockTaskTitle(block) || '(no task)'}
                       </span>
+                      {taskRef && taskRef.source !== 'sanjou' && (
+                        <span className="block-source">{getTaskProvider(taskRef.source).label}</span>
+                      )}
+                      {timing.pauseCount > 0 && (
+                        <span
+                          className="block-pauses"
+                          title={`Paused ${timing.pauseCount}x, ${formatDuration(timing.wallMs)} wall time`}
+                        >
+                          {timing.pauseCount}x paused {Math.round(timing.pausedMs / 60000)}m
+                        </span>
+                      )}
+                      {block.overtime ? (
+                        <span className="block-overtime" title="Kept working after the block ended">
+                          +{block.overtime}m
+                        </span>
+                      ) : null}
                       <span className="block-duration">
                         {block.isValid && block.completedAt
-                          ? formatDuration(block.startedAt, block.completedAt)
-                          : 'interrupted'}
+                          ? formatDuration(timing.focusMs)
+                          : reason || 'interrupted'}
                       </span>
                     </li>
                   );
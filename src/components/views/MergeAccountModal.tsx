@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Modal, Button } from '../common';
+import { subscribeMergePrompt, resolveMergePrompt, MergePrompt } from '../../sync/firebaseSync';
+import './MergeAccountModal.css';
+
+// Asks before blocks recorded while signed out are merged into an account,
+// or backed up for the first time from an install that used the old shared doc
+export const MergeAccountModal = () => {
+  const [prompt, setPrompt] = useState<MergePrompt | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeMergePrompt(setPrompt);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  if (!prompt) return null;
+
+  const blocksLabel = `${prompt.localBlocks} local block${prompt.localBlocks === 1 ? '' : 's'}`;
+
+  return (
+    <Modal
+      isOpen
+      onClose={() => resolveMergePrompt(false)}
+      title={prompt.anonymous ? 'Back Up Local Data' : 'Merge Local Data'}
+      width="sm"
+    >
+      <div className="merge-account">
+        {prompt.anonymous ? (
+          <p className="merge-account-description">
+            Backing up {blocksLabel} to a private document for this device. Older
+            versions shared one document between everyone signed out, so some of
+            them may not be yours.
+          </p>
+        ) : (
+          <p className="merge-account-description">
+            Merging {blocksLabel} into your account. They will sync to every device
+            signed in to it.
+          </p>
+        )}
+        <p className="merge-account-hint">
+          {prompt.anonymous
+            ? 'Keeping them local turns off the anonymous backup.'
+            : 'Signing out instead keeps them on this device only.'}
+        </p>
+        <div className="merge-account-actions">
+          <Button variant="primary" onClick={() => resolveMergePrompt(true)}>
+            {prompt.anonymous ? 'Back Up' : 'Merge'}
+          </Button>
+          <Button variant="ghost" onClick={() => resolveMergePrompt(false)}>
+            {prompt.anonymous ? 'Keep Local' : 'Sign Out'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
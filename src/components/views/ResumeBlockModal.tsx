@@ -0,0 +1,87 @@
+import { Modal, Button } from '../common';
+import { formatTime } from '../../hooks/useTimer';
+import type { ActiveBlockSession } from '../../models';
+import './ResumeBlockModal.css';
+
+interface ResumeBlockModalProps {
+  session: ActiveBlockSession | null;
+  onResume: () => void;
+  onCompleteRetroactively: () => void;
+  onDiscard: () => void;
+  onDismiss: () => void;
+}
+
+// Focus seconds the session had accumulated when the app went away
+export const getSessionElapsed = (session: ActiveBlockSession, now = Date.now()): number => {
+  const end = session.pausedAt ?? now;
+  return Math.max(0, Math.floor((end - session.startedAt - session.pausedMs) / 1000));
+};
+
+export const ResumeBlockModal = ({
+  session,
+  onResume,
+  onCompleteRetroactively,
+  onDiscard,
+  onDismiss,
+}: ResumeBlockModalProps) => {
+  if (!session) return null;
+
+  // Flowtime blocks have no planned end, so they can always be picked back up
+  const isFlowtime = session.mode === 'flowtime';
+  const elapsed = isFlowtime
+    ? getSessionElapsed(session)
+    : Math.min(getSessionElapsed(session), session.duration * 60);
+  const remaining = session.duration * 60 - elapsed;
+  const canResume = isFlowtime || remaining > 0;
+  const startedLabel = new Date(session.startedAt).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+  return (
+    <Modal isOpen onClose={onDismiss} title="Unfinished Block" width="sm">
+      <div className="resume-block">
+        <p className="resume-block-description">
+          A block started at {startedLabel} was still {session.pausedAt ? 'paused' : 'running'} when
+          Sanjou closed.
+        </p>
+
+        <div className="resume-block-details">
+          {session.taskText && (
+            <div className="resume-block-row">
+              <span className="resume-block-label">Task</span>
+              <span className="resume-block-value">{session.taskText}</span>
+            </div>
+          )}
+          <div className="resume-block-row">
+            <span className="resume-block-label">Focused</span>
+            <span className="resume-block-value">{formatTime(elapsed)}</span>
+          </div>
+          {!isFlowtime && (
+            <div className="resume-block-row">
+              <span className="resume-block-label">Remaining</span>
+              <span className="resume-block-value">
+                {remaining > 0 ? formatTime(remaining) : 'time is up'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="resume-block-actions">
+          {canResume && (
+            <Button variant="primary" onClick={onResume}>
+              Resume
+            </Button>
+          )}
+          <Button variant={canResume ? 'secondary' : 'primary'} onClick={onCompleteRetroactively}>
+            Mark Complete
+          </Button>
+          <Button variant="ghost" onClick={onDiscard}>
+            Discard
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,14 +1,48 @@
 import { useState } from 'react';
-import { Modal, Button } from '../common';
+import { Modal, Button, Checkbox } from '../common';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useExport } from '../../hooks/useExport';
 import { useAuth } from '../../hooks/useAuth';
+import { useEncryption } from '../../hooks/useEncryption';
+import { usePrograms, parseSegments, formatSegments, isPresetProgram } from '../../hooks/usePrograms';
+import { useSharedDir } from '../../hooks/useSharedDir';
+import { useTaskSourceFiles, TaskSourceFile } from '../../hooks/useTaskSourceFiles';
+import type { Settings, SyncBackend } from '../../models';
+import type { SharedDirSource } from '../../sync/sharedDir';
+import type { AuthMode } from './AuthView';
 import './SettingsView.css';
 
+// Night owls can push the day boundary past midnight
+const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6];
+
+// Flowtime break = worked minutes divided by this
+const FLOWTIME_BREAK_DIVISORS = [3, 4, 5, 6, 8];
+
+// Settings that can be kept on this device instead of syncing
+const DEVICE_LOCAL_OPTIONS: { key: keyof Settings; label: string }[] = [
+  { key: 'theme', label: 'Theme' },
+  { key: 'soundEnabled', label: 'Sound effects' },
+  { key: 'notificationsEnabled', label: 'Notifications' },
+  { key: 'blockDuration', label: 'Block duration' },
+  { key: 'blockMode', label: 'Block mode' },
+  { key: 'activeProgramId', label: 'Active program' },
+  { key: 'dayStartHour', label: 'Day start' },
+];
+
+const SHARED_DIR_SOURCES: Record<SharedDirSource, string> = {
+  override: 'Custom',
+  platform: 'Default',
+};
+
+const TASK_SOURCE_FILES: { kind: TaskSourceFile; label: string; placeholder: string }[] = [
+  { kind: 'markdown', label: 'Markdown checklist', placeholder: 'Path to a .md file with - [ ] items' },
+  { kind: 'taskwarrior', label: 'Taskwarrior export', placeholder: 'Path to the output of task export' },
+];
+
 interface SettingsViewProps {
   isOpen: boolean;
   onClose: () => void;
-  onOpenAuth: () => void;
+  onOpenAuth: (mode?: AuthMode) => void;
 }
 
 export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps) => {
@@ -17,23 +51,137 @@ export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps)
     breakDuration,
     longBreakDuration,
     blocksUntilLongBreak,
+    cycleResetMinutes,
     soundEnabled,
     notificationsEnabled,
     theme,
+    dayStartHour,
+    blockMode,
+    flowtimeBreakRatio,
+    overtimeEnabled,
     setBlockDuration,
     setBreakDuration,
     setLongBreakDuration,
     setBlocksUntilLongBreak,
+    setCycleResetMinutes,
     setSoundEnabled,
     setNotificationsEnabled,
     setTheme,
+    setDayStartHour,
+    setBlockMode,
+    setFlowtimeBreakRatio,
+    setOvertimeEnabled,
+    deviceLocalKeys,
+    setDeviceLocal,
     resetToDefaults,
+    syncBackend,
+    syncServerUrl,
+    syncRoom,
+    syncToken,
+    setSyncServer,
+    anonymousSync,
+    setAnonymousSync,
+    subeteSharedDir,
+    setSubeteSharedDir,
   } = useSettingsStore();
 
   const { exportData } = useExport();
   const { user, isAuthenticated, isAuthAvailable, signOut, isLoading } = useAuth();
+  const { status: encryptionStatus } = useEncryption();
   const [exportStatus, setExportStatus] = useState<string | null>(null);
 
+  const { programs, activeProgram, selectProgram, createProgram, editProgram, deleteProgram } = usePrograms();
+  const [editingProgramId, setEditingProgramId] = useState<string | null>(null);
+  const [programName, setProgramName] = useState('');
+  const [programSequence, setProgramSequence] = useState('');
+  const [programError, setProgramError] = useState<string | null>(null);
+
+  // Edited as a draft so sync only reconnects on Connect, not per keystroke
+  const [serverUrl, setServerUrl] = useState(syncServerUrl);
+  const [serverRoom, setServerRoom] = useState(syncRoom);
+  const [serverToken, setServerToken] = useState(syncToken);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const { status: sharedDirStatus, refresh: refreshSharedDir, chooseDir } = useSharedDir();
+
+  const taskSourceFiles = useTaskSourceFiles();
+
+  const resetProgramForm = () => {
+    setEditingProgramId(null);
+    setProgramName('');
+    setProgramSequence('');
+    setProgramError(null);
+  };
+
+  const handleEditProgram = (id: string) => {
+    const program = programs.find((p) => p.id === id);
+    if (!program) return;
+    setEditingProgramId(id);
+    setProgramName(program.name);
+    setProgramSequence(formatSegments(program.segments));
+    setProgramError(null);
+  };
+
+  const handleSaveProgram = () => {
+    const name = programName.trim();
+    const segments = parseSegments(programSequence);
+    if (!name) {
+      setProgramError('Give the program a name.');
+      return;
+    }
+    if (!segments) {
+      setProgramError('Use work/break minutes, e.g. 25/5, 25/5, 25/15L');
+      return;
+    }
+    if (editingProgramId) {
+      editProgram(editingProgramId, { name, segments });
+    } else {
+      createProgram(name, segments);
+    }
+    resetProgramForm();
+  };
+
+  const handleSyncBackendChange = (backend: SyncBackend) => {
+    setSyncServer({ syncBackend: backend, syncServerUrl, syncRoom, syncToken });
+  };
+
+  const handleConnectServer = () => {
+    const url = serverUrl.trim();
+    const room = serverRoom.trim();
+    if (!/^wss?:\/\/.+/.test(url)) {
+      setServerError('Server URL must start with ws:// or wss://');
+      return;
+    }
+    if (!room) {
+      setServerError('Give the room a name.');
+      return;
+    }
+    setServerError(null);
+    setSyncServer({ syncBackend: 'websocket', syncServerUrl: url, syncRoom: room, syncToken: serverToken.trim() });
+  };
+
+  const handleBrowseSharedDir = async () => {
+    const selected = await chooseDir();
+    if (selected) {
+      setSubeteSharedDir(selected);
+    }
+  };
+
+  const handleResetSharedDir = () => {
+    setSubeteSharedDir('');
+  };
+
+  const handleBrowseTaskFile = async (kind: TaskSourceFile) => {
+    const selected = await taskSourceFiles.chooseFile(kind);
+    if (selected) {
+      taskSourceFiles.setPath(kind, selected);
+    }
+  };
+
+  const handleRemoveTaskFile = (kind: TaskSourceFile) => {
+    taskSourceFiles.setPath(kind, '');
+  };
+
   const handleSignOut = async () => {
     await signOut();
   };
@@ -55,6 +203,18 @@ export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps)
         <section className="settings-section">
           <h4 className="settings-section-title">Timer</h4>
 
+          <div className="setting-row">
+            <label className="setting-label">Block mode</label>
+            <select
+              className="setting-select"
+              value={blockMode}
+              onChange={(e) => setBlockMode(e.target.value as 'countdown' | 'flowtime')}
+            >
+              <option value="countdown">Countdown</option>
+              <option value="flowtime">Flowtime</option>
+            </select>
+          </div>
+
           <div className="setting-row">
             <label className="setting-label">Block duration</label>
             <div className="setting-input-group">
@@ -85,6 +245,37 @@ export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps)
             </div>
           </div>
 
+          <div className="setting-row">
+            <label className="setting-label">Overtime</label>
+            <button
+              className={`setting-toggle ${overtimeEnabled ? 'setting-toggle-on' : ''}`}
+              onClick={() => setOvertimeEnabled(!overtimeEnabled)}
+              role="switch"
+              aria-checked={overtimeEnabled}
+              title="Keep counting after a block ends until you stop it"
+            >
+              <span className="toggle-track">
+                <span className="toggle-thumb" />
+              </span>
+              <span className="toggle-label">{overtimeEnabled ? 'On' : 'Off'}</span>
+            </button>
+          </div>
+
+          <div className="setting-row">
+            <label className="setting-label">Flowtime break</label>
+            <select
+              className="setting-select"
+              value={Math.round(1 / flowtimeBreakRatio)}
+              onChange={(e) => setFlowtimeBreakRatio(1 / parseInt(e.target.value))}
+            >
+              {FLOWTIME_BREAK_DIVISORS.map((divisor) => (
+                <option key={divisor} value={divisor}>
+                  1/{divisor} of work
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="setting-row">
             <label className="setting-label">Long break</label>
             <div className="setting-input-group">
@@ -114,6 +305,101 @@ export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps)
               <span className="setting-unit">blocks</span>
             </div>
           </div>
+
+          <div className="setting-row">
+            <label className="setting-label">Reset cycle after idle</label>
+            <div className="setting-input-group">
+              <input
+                type="number"
+                className="setting-input"
+                value={cycleResetMinutes}
+                onChange={(e) => setCycleResetMinutes(Math.max(5, parseInt(e.target.value) || 60))}
+                min="5"
+                max="480"
+              />
+              <span className="setting-unit">min</span>
+            </div>
+          </div>
+
+          <div className="setting-row">
+            <label className="setting-label">Day starts at</label>
+            <select
+              className="setting-select"
+              value={dayStartHour}
+              onChange={(e) => setDayStartHour(parseInt(e.target.value))}
+            >
+              {DAY_START_HOURS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {hour === 0 ? 'Midnight' : `${hour}:00 AM`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h4 className="settings-section-title">Interval Programs</h4>
+
+          <div className="setting-row">
+            <label className="setting-label">Active program</label>
+            <select
+              className="setting-select"
+              value={activeProgram?.id ?? ''}
+              onChange={(e) => selectProgram(e.target.value || null)}
+            >
+              <option value="">Standard intervals</option>
+              {programs.map((program) => (
+                <option key={program.id} value={program.id}>{program.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <ul className="program-list">
+            {programs.map((program) => (
+              <li key={program.id} className="program-item">
+                <span className="program-name">{program.name}</span>
+                <span className="program-sequence">{formatSegments(program.segments)}</span>
+                {!isPresetProgram(program.id) && (
+                  <span className="program-actions">
+                    <button className="program-action" onClick={() => handleEditProgram(program.id)}>
+                      Edit
+                    </button>
+                    <button className="program-action danger" onClick={() => deleteProgram(program.id)}>
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="program-form">
+            <input
+              type="text"
+              className="program-input"
+              placeholder="Name"
+              value={programName}
+              onChange={(e) => setProgramName(e.target.value)}
+            />
+            <input
+              type="text"
+              className="program-input program-input-sequence"
+              placeholder="25/5, 25/5, 25/5, 25/15L"
+              value={programSequence}
+              onChange={(e) => setProgramSequence(e.target.value)}
+            />
+            <div className="program-form-buttons">
+              <Button variant="secondary" size="sm" onClick={handleSaveProgram}>
+                {editingProgramId ? 'Save' : 'Add'}
+              </Button>
+              {editingProgramId && (
+                <Button variant="ghost" size="sm" onClick={resetProgramForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+            {programError && <span className="program-error">{programError}</span>}
+          </div>
         </section>
 
         <section className="settings-section">
@@ -189,7 +475,149 @@ export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps)
           </div>
         </section>
 
-        {isAuthAvailable && (
+        <section className="settings-section">
+          <h4 className="settings-section-title">Subete</h4>
+
+          <div className="shared-dir-form">
+            <input
+              type="text"
+              className="sync-server-input"
+              placeholder="Default location"
+              value={subeteSharedDir}
+              readOnly
+              title="Choose with Browse - Sanjou can only use folders picked there"
+            />
+            <div className="shared-dir-buttons">
+              <Button variant="secondary" size="sm" onClick={handleBrowseSharedDir}>
+                Browse
+              </Button>
+              {subeteSharedDir && (
+                <Button variant="ghost" size="sm" onClick={handleResetSharedDir}>
+                  Use Default
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={refreshSharedDir}>
+                Check
+              </Button>
+            </div>
+          </div>
+
+          {sharedDirStatus ? (
+            <div className="shared-dir-status">
+              <span className="shared-dir-path">
+                {sharedDirStatus.path}
+                <span className="shared-dir-source">{SHARED_DIR_SOURCES[sharedDirStatus.source]}</span>
+              </span>
+              {!sharedDirStatus.dirFound && (
+                <span className="shared-dir-file missing">Directory not found</span>
+              )}
+              <span className={`shared-dir-file ${sharedDirStatus.tasksFound ? 'found' : 'missing'}`}>
+                tasks.json {sharedDirStatus.tasksFound ? 'found' : 'not found'}
+              </span>
+              <span className={`shared-dir-file ${sharedDirStatus.completionsFound ? 'found' : 'missing'}`}>
+                completions.json {sharedDirStatus.completionsFound ? 'found' : 'not found'}
+              </span>
+            </div>
+          ) : (
+            <p className="device-local-description">Subete sync is only available in the desktop app.</p>
+          )}
+        </section>
+
+        <section className="settings-section">
+          <h4 className="settings-section-title">Task Sources</h4>
+          <p className="device-local-description">
+            Sanjou and Subete tasks are always in the picker. Add a file to pick from it too.
+          </p>
+
+          {TASK_SOURCE_FILES.map(({ kind, label, placeholder }) => (
+            <div key={kind} className="shared-dir-form">
+              <span className="setting-label">{label}</span>
+              <input
+                type="text"
+                className="sync-server-input"
+                placeholder={placeholder}
+                value={taskSourceFiles.paths[kind]}
+                readOnly
+                title="Choose with Browse - Sanjou can only use files picked there"
+              />
+              <div className="shared-dir-buttons">
+                <Button variant="secondary" size="sm" onClick={() => handleBrowseTaskFile(kind)}>
+                  Browse
+                </Button>
+                {taskSourceFiles.paths[kind] && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRemoveTaskFile(kind)}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <section className="settings-section">
+          <h4 className="settings-section-title">This Device Only</h4>
+          <p className="device-local-description">
+            Settings sync across your devices. Checked ones stay on this device.
+          </p>
+          <div className="device-local-list">
+            {DEVICE_LOCAL_OPTIONS.map(({ key, label }) => (
+              <Checkbox
+                key={key}
+                checked={deviceLocalKeys.includes(key)}
+                onChange={(checked) => setDeviceLocal(key, checked)}
+                label={label}
+              />
+            ))}
+          </div>
+        </section>
+
+        <section className="settings-section">
+          <h4 className="settings-section-title">Sync</h4>
+
+          <div className="setting-row">
+            <label className="setting-label">Sync with</label>
+            <select
+              className="setting-select"
+              value={syncBackend}
+              onChange={(e) => handleSyncBackendChange(e.target.value as SyncBackend)}
+            >
+              <option value="firebase">Sanjou cloud</option>
+              <option value="websocket">Self-hosted server</option>
+            </select>
+          </div>
+
+          {syncBackend === 'websocket' && (
+            <div className="sync-server-form">
+              <input
+                type="text"
+                className="sync-server-input"
+                placeholder="wss://sync.example.com"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+              />
+              <input
+                type="text"
+                className="sync-server-input"
+                placeholder="Room"
+                value={serverRoom}
+                onChange={(e) => setServerRoom(e.target.value)}
+              />
+              <input
+                type="password"
+                className="sync-server-input"
+                placeholder="Token (optional)"
+                value={serverToken}
+                onChange={(e) => setServerToken(e.target.value)}
+              />
+              <Button variant="secondary" size="sm" onClick={handleConnectServer}>
+                Connect
+              </Button>
+              {serverError && <span className="sync-server-error">{serverError}</span>}
+            </div>
+          )}
+        </section>
+
+        {isAuthAvailable && syncBackend === 'firebase' && (
           <section className="settings-section">
             <h4 className="settings-section-title">Account</h4>
             {isAuthenticated ? (
@@ -211,9 +639,38 @@ export const SettingsView = ({ isOpen, onClose, onOpenAuth }: SettingsViewProps)
                 <p className="account-description">
                   Sign in to sync your data across devices.
                 </p>
-                <Button variant="primary" onClick={onOpenAuth}>
+                <Button variant="primary" onClick={() => onOpenAuth()}>
                   Sign In
                 </Button>
+                <Checkbox
+                  checked={anonymousSync}
+                  onChange={setAnonymousSync}
+                  label="Back up this device without an account"
+                />
+              </div>
+            )}
+            {isAuthenticated && (
+              <div className="account-encryption">
+                <span className="account-encryption-status">
+                  {encryptionStatus === 'off' && 'Synced data is not encrypted'}
+                  {encryptionStatus === 'locked' && 'Locked - enter your passphrase to sync'}
+                  {encryptionStatus === 'unlocked' && 'End-to-end encrypted'}
+                </span>
+                {encryptionStatus === 'off' && (
+                  <Button variant="secondary" onClick={() => onOpenAuth('encrypt')}>
+                    Encrypt Sync Data
+                  </Button>
+                )}
+                {encryptionStatus === 'locked' && (
+                  <Button variant="secondary" onClick={() => onOpenAuth('unlock')}>
+                    Unlock
+                  </Button>
+                )}
+                {encryptionStatus === 'unlocked' && (
+                  <Button variant="secondary" onClick={() => onOpenAuth('change-passphrase')}>
+                    Change Passphrase
+                  </Button>
+                )}
               </div>
             )}
           </section>
@@ -42,6 +42,7 @@ const shortcuts: ShortcutCategory[] = [
     items: [
       { keys: ['Alt', 'H'], action: 'Toggle history view' },
       { keys: ['Alt', 'T'], action: 'Toggle statistics view' },
+      { keys: ['Alt', 'L'], action: 'Toggle tasks view' },
       { keys: ['Alt', 'N'], action: 'Open task notes' },
       { keys: ['Alt', 'S'], action: 'Open settings' },
       { keys: ['Alt', '?'], action: 'Show this help' },
@@ -1,11 +1,13 @@
 import { useCallback } from 'react';
-import { useStats, formatDate, getDayOfWeek } from '../../hooks/useStats';
+import { useStats, formatDate, getDayOfWeek, formatMinutes } from '../../hooks/useStats';
+import { useEstimateStats } from '../../hooks/useEstimates';
 import { useKeyboard } from '../../hooks/useKeyboard';
 import { useUIStore } from '../../store/uiStore';
 import './StatsView.css';
 
 export const StatsView = () => {
   const stats = useStats();
+  const estimates = useEstimateStats();
   const setCurrentView = useUIStore((s) => s.setCurrentView);
 
   const handleBack = useCallback(() => {
@@ -17,6 +19,8 @@ export const StatsView = () => {
     'alt+t': handleBack,
   }, [handleBack]);
 
+  const formatRatio = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
   const maxTrendCount = Math.max(...stats.weeklyTrend.map(d => d.validCount), 1);
 
   return (
@@ -101,6 +105,26 @@ export const StatsView = () => {
               <span className="detail-label">Total Blocks</span>
               <span className="detail-value">{stats.totalValidBlocks}</span>
             </div>
+            <div className="detail-row">
+              <span className="detail-label">Net Focus</span>
+              <span className="detail-value">
+                {formatMinutes(stats.focusMinutes)} / {formatMinutes(stats.wallMinutes)} wall
+              </span>
+            </div>
+            {stats.overtimeMinutes > 0 && (
+              <div className="detail-row">
+                <span className="detail-label">Overtime</span>
+                <span className="detail-value">{formatMinutes(stats.overtimeMinutes)}</span>
+              </div>
+            )}
+            <div className="detail-row">
+              <span className="detail-label">Pauses</span>
+              <span className="detail-value">{stats.pauseCount}</span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">Interruptions</span>
+              <span className="detail-value">{stats.interruptionCount}</span>
+            </div>
             {stats.bestDay && (
               <div className="detail-row">
                 <span className="detail-label">Best Day</span>
@@ -111,6 +135,64 @@ export const StatsView = () => {
             )}
           </div>
         </section>
+
+        {/* Estimates vs. actual blocks */}
+        <section className="stats-card">
+          <h3 className="card-title">Estimates</h3>
+          {estimates.samples.length === 0 && estimates.overruns.length === 0 ? (
+            <p className="estimates-empty">
+              Estimate tasks in blocks (T in the Tasks view) to see how close you get.
+            </p>
+          ) : (
+            <div className="stats-details">
+              {estimates.samples.length > 0 && (
+                <>
+                  <div className="detail-row">
+                    <span className="detail-label">Blocks vs. Estimate</span>
+                    <span className="detail-value">
+                      {formatRatio(estimates.averageRatio)} over {estimates.samples.length} tasks
+                    </span>
+                  </div>
+                  <div className="detail-row">
+                    <span className="detail-label">Within Estimate</span>
+                    <span className="detail-value">{formatRatio(estimates.withinEstimate)}</span>
+                  </div>
+                  <h4 className="estimates-subtitle">By week</h4>
+                  {estimates.byWeek.slice(-6).map((week) => (
+                    <div key={week.week} className="detail-row">
+                      <span className="detail-label">Week of {formatDate(week.week)}</span>
+                      <span className="detail-value">
+                        {formatRatio(week.averageRatio)} ({week.count})
+                      </span>
+                    </div>
+                  ))}
+                  <h4 className="estimates-subtitle">Recent tasks</h4>
+                  {estimates.samples.slice(0, 8).map((sample) => (
+                    <div key={sample.key} className="detail-row">
+                      <span className="detail-label estimates-task">{sample.title}</span>
+                      <span className={`detail-value ${sample.actual > sample.estimated ? 'estimates-over' : ''}`}>
+                        {sample.actual}/{sample.estimated} blocks
+                      </span>
+                    </div>
+                  ))}
+                </>
+              )}
+              {estimates.overruns.length > 0 && (
+                <>
+                  <h4 className="estimates-subtitle">Running over</h4>
+                  {estimates.overruns.map((overrun) => (
+                    <div key={overrun.key} className="detail-row">
+                      <span className="detail-label estimates-task">{overrun.title}</span>
+                      <span className="detail-value estimates-over">
+                        {overrun.actual}/{overrun.estimated} blocks
+                      </span>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </section>
       </main>
 
       <footer className="stats-footer">
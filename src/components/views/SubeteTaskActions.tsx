@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { useSubeteCommands } from '../../hooks/useSubeteCommands';
+import type { SubeteTask } from '../../hooks/useSubeteTasks';
+import type { SubeteCommand } from '../../sync/subeteCommands';
+import './SubeteTaskActions.css';
+
+interface SubeteTaskActionsProps {
+  task: SubeteTask;
+}
+
+const describeCommand = (command: SubeteCommand): string => {
+  switch (command.type) {
+    case 'mark_done':
+      return 'Marking done';
+    case 'set_status':
+      return `Moving to ${command.status?.replace('_', ' ')}`;
+    case 're_estimate':
+      return `Re-estimating to ${command.time}`;
+  }
+};
+
+// Update the block's Subete task from the completed view
+export const SubeteTaskActions = ({ task }: SubeteTaskActionsProps) => {
+  const { pending, markDone, setStatus, reEstimate } = useSubeteCommands(task.id);
+  const [estimate, setEstimate] = useState(String(task.time));
+  const [sending, setSending] = useState(false);
+
+  // Follow Subete's value once it has applied a re-estimate
+  useEffect(() => {
+    setEstimate(String(task.time));
+  }, [task.time]);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setSending(true);
+    await action();
+    setSending(false);
+  };
+
+  const parsedEstimate = parseFloat(estimate);
+  const canReEstimate = Number.isFinite(parsedEstimate) && parsedEstimate >= 0 && parsedEstimate !== task.time;
+
+  return (
+    <div className="subete-task-actions">
+      <div className="subete-task-header">
+        <span className="subete-task-content">{task.content}</span>
+        <span className="subete-task-status">{task.status.replace('_', ' ')}</span>
+      </div>
+
+      <div className="subete-task-buttons">
+        <button
+          className="subete-task-btn"
+          disabled={sending || task.status === 'done'}
+          onClick={() => run(markDone)}
+        >
+          Mark Done
+        </button>
+        <button
+          className="subete-task-btn"
+          disabled={sending || task.status === 'in_progress'}
+          onClick={() => run(() => setStatus('in_progress'))}
+        >
+          In Progress
+        </button>
+        <form
+          className="subete-task-estimate"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canReEstimate) run(() => reEstimate(parsedEstimate));
+          }}
+        >
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={estimate}
+            onChange={(e) => setEstimate(e.target.value)}
+            aria-label="Remaining estimate"
+            title="Remaining estimate"
+          />
+          <button type="submit" className="subete-task-btn" disabled={sending || !canReEstimate}>
+            Re-estimate
+          </button>
+        </form>
+      </div>
+
+      {pending.length > 0 && (
+        <ul className="subete-task-pending">
+          {pending.map((command) => (
+            <li key={command.id}>{describeCommand(command)} - waiting for Subete</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
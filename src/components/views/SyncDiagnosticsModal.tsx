@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Modal, Button } from '../common';
+import { subscribeDiagnostics, SyncDiagnostics } from '../../sync/syncDiagnostics';
+import { resyncActiveProvider, reuploadActiveProvider } from '../../sync/syncProvider';
+import { useUIStore } from '../../store/uiStore';
+import { useCompletionQueue } from '../../hooks/useCompletionQueue';
+import { useSubeteTasksStore } from '../../store/subeteTasksStore';
+import { describeSkippedRow, isNewerVersion } from '../../sync/sharedFormat';
+import './SyncDiagnosticsModal.css';
+
+interface SyncDiagnosticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const formatTime = (timestamp: number | null): string => {
+  if (timestamp === null) return 'Not this session';
+  return new Date(timestamp).toLocaleTimeString();
+};
+
+const STATE_LABELS = {
+  synced: 'Synced',
+  syncing: 'Syncing...',
+  offline: 'Offline',
+  error: 'Sync error',
+};
+
+// Near the per-document cap the snapshot can no longer be written
+const DOC_SIZE_WARNING = 0.8;
+
+export const SyncDiagnosticsModal = ({ isOpen, onClose }: SyncDiagnosticsModalProps) => {
+  const syncState = useUIStore((s) => s.syncState);
+  const [diagnostics, setDiagnostics] = useState<SyncDiagnostics | null>(null);
+  const [busy, setBusy] = useState(false);
+  const completionQueue = useCompletionQueue();
+  const tasksFileVersion = useSubeteTasksStore((s) => s.fileVersion);
+  const skippedTaskRows = useSubeteTasksStore((s) => s.skippedRows);
+
+  useEffect(() => {
+    const unsubscribe = subscribeDiagnostics(setDiagnostics);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  if (!diagnostics) return null;
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    await action();
+    setBusy(false);
+  };
+
+  const docUsage = diagnostics.docBytes !== null && diagnostics.docLimitBytes
+    ? diagnostics.docBytes / diagnostics.docLimitBytes
+    : null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Sync Diagnostics" width="sm">
+      <div className="sync-diagnostics">
+        <dl className="diagnostics-list">
+          <dt>Status</dt>
+          <dd>
+            <span className={`sync-dot sync-dot-${syncState}`} />
+            {STATE_LABELS[syncState]}
+          </dd>
+
+          <dt>Backend</dt>
+          <dd>{diagnostics.provider ?? 'None'}</dd>
+
+          <dt>Account</dt>
+          <dd>{diagnostics.account ?? 'Not signed in'}</dd>
+
+          <dt>Document</dt>
+          <dd className="diagnostics-mono">{diagnostics.docId ?? '-'}</dd>
+
+          <dt>Last push</dt>
+          <dd>{formatTime(diagnostics.lastPushAt)}</dd>
+
+          <dt>Last pull</dt>
+          <dd>{formatTime(diagnostics.lastPullAt)}</dd>
+
+          <dt>Pending</dt>
+          <dd>
+            {diagnostics.pendingUpdates} update{diagnostics.pendingUpdates === 1 ? '' : 's'}
+            {diagnostics.pendingUpdates > 0 && ` (${formatBytes(diagnostics.pendingBytes)})`}
+          </dd>
+
+          {diagnostics.docBytes !== null && (
+            <>
+              <dt>Snapshot size</dt>
+              <dd>
+                {formatBytes(diagnostics.docBytes)}
+                {docUsage !== null && diagnostics.docLimitBytes && (
+                  <span className={`diagnostics-usage ${docUsage >= DOC_SIZE_WARNING ? 'warning' : ''}`}>
+                    {' '}of {formatBytes(diagnostics.docLimitBytes)} ({Math.round(docUsage * 100)}%)
+                  </span>
+                )}
+              </dd>
+            </>
+          )}
+        </dl>
+
+        {diagnostics.lastError && (
+          <div className="diagnostics-error">
+            <span className="diagnostics-error-time">{formatTime(diagnostics.lastError.at)}</span>
+            <span className="diagnostics-error-message">{diagnostics.lastError.message}</span>
+          </div>
+        )}
+
+        <div className="diagnostics-actions">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={busy || !diagnostics.provider}
+            onClick={() => runAction(resyncActiveProvider)}
+          >
+            Force Resync
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={busy || syncState === 'offline'}
+            onClick={() => runAction(reuploadActiveProvider)}
+          >
+            Re-upload Full State
+          </Button>
+        </div>
+
+        <div className="diagnostics-completions">
+          <h4 className="diagnostics-section-title">Subete Completions</h4>
+          <div className="diagnostics-completions-pending">
+            <span>
+              {completionQueue.pendingCount} waiting for completions.json
+            </span>
+            {completionQueue.pendingCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={completionQueue.retryPending}>
+                Retry Now
+              </Button>
+            )}
+          </div>
+
+          {completionQueue.deadLetters.length > 0 && (
+            <>
+              <ul className="dead-letter-list">
+                {completionQueue.deadLetters.map((item) => (
+                  <li key={item.id} className="dead-letter-item">
+                    <div className="dead-letter-info">
+                      <span className="diagnostics-mono">{item.taskId}</span>
+                      <span className="dead-letter-meta">
+                        {item.duration}m, {new Date(item.completedAt).toLocaleString()}
+                      </span>
+                      {item.lastError && <span className="dead-letter-error">{item.lastError}</span>}
+                    </div>
+                    <span className="dead-letter-actions">
+                      <button className="dead-letter-action" onClick={() => completionQueue.retryDeadLetters(item.id)}>
+                        Retry
+                      </button>
+                      <button className="dead-letter-action danger" onClick={() => completionQueue.discardDeadLetter(item.id)}>
+                        Discard
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="diagnostics-actions">
+                <Button variant="secondary" size="sm" onClick={() => completionQueue.retryDeadLetters()}>
+                  Retry All Failed
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {tasksFileVersion !== null && (
+          <div className="diagnostics-completions">
+            <h4 className="diagnostics-section-title">Subete Tasks</h4>
+            <div className="diagnostics-completions-pending">
+              <span>
+                tasks.json format v{tasksFileVersion}
+                {isNewerVersion(tasksFileVersion) && ' (newer than this app)'}
+              </span>
+            </div>
+            {skippedTaskRows.length > 0 && (
+              <ul className="dead-letter-list">
+                {skippedTaskRows.map((row) => (
+                  <li key={row.index} className="dead-letter-error">
+                    {describeSkippedRow(row)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
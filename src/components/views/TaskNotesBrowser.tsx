@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { Modal } from '../common';
+import { TaskSourcePicker } from '../common/TaskSourcePicker';
+import { useTaskNotes } from '../../hooks/useTaskNotes';
+import { useTaskSources } from '../../hooks/useTaskSources';
+import { parseTaskNoteKey, taskNoteKey } from '../../sync/taskNotes';
+import { getTaskProvider } from '../../tasks/providers';
+import type { PickableTask } from '../../tasks/taskProvider';
+import './TaskNotesBrowser.css';
+
+interface TaskNotesBrowserProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PREVIEW_LENGTH = 120;
+
+const preview = (notes: string): string => {
+  const flat = notes.replace(/\s+/g, ' ').trim();
+  return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH)}...` : flat;
+};
+
+// Whether a note's task still exists in its source - finished tasks count,
+// since their notes are still theirs
+const hasTask = async (key: string): Promise<boolean> => {
+  const ref = parseTaskNoteKey(key);
+  if (!ref) return false;
+  const provider = getTaskProvider(ref.source);
+  return provider.isEnabled() && provider.has(ref.id);
+};
+
+const OrphanedNotes = () => {
+  const { notes, deleteNote, reassignNote } = useTaskNotes();
+  const taskSources = useTaskSources();
+  const [reassigningKey, setReassigningKey] = useState<string | null>(null);
+  // First Delete click arms it, the second deletes
+  const [deleteArmed, setDeleteArmed] = useState<string | null>(null);
+  const [orphanedKeys, setOrphanedKeys] = useState<Set<string> | null>(null);
+  const reassignTriggerRef = useRef<HTMLButtonElement>(null);
+
+  // Re-checked whenever notes or any source's tasks change
+  useEffect(() => {
+    if (taskSources.loading) return;
+    let active = true;
+    const keys = Array.from(notes.entries())
+      .filter(([, note]) => note.notes.trim())
+      .map(([key]) => key);
+    Promise.all(keys.map(hasTask)).then((found) => {
+      if (active) setOrphanedKeys(new Set(keys.filter((_, index) => !found[index])));
+    });
+    return () => {
+      active = false;
+    };
+  }, [notes, taskSources.loading, taskSources.tasks]);
+
+  const orphaned = Array.from(notes.entries())
+    .filter(([key]) => orphanedKeys?.has(key))
+    .sort(([, a], [, b]) => b.modifiedAt - a.modifiedAt);
+
+  const handleDelete = (key: string) => {
+    if (deleteArmed !== key) {
+      setDeleteArmed(key);
+      return;
+    }
+    deleteNote(key);
+    setDeleteArmed(null);
+  };
+
+  const describeKey = (key: string): string => {
+    const ref = parseTaskNoteKey(key);
+    return ref ? `${getTaskProvider(ref.source).label} task not found` : 'Typed task';
+  };
+
+  const handleReassign = (fromKey: string, task: PickableTask) => {
+    const toKey = taskNoteKey({ source: task.source, id: task.id }, task.title);
+    if (toKey) reassignNote(fromKey, toKey, task.title);
+    setReassigningKey(null);
+  };
+
+  return (
+    <div className="notes-browser">
+      <p className="notes-browser-hint">
+        Notes whose task no longer exists. Move them onto a task, or delete them.
+      </p>
+      {taskSources.loading || !orphanedKeys ? (
+        <div className="notes-browser-empty">Loading tasks...</div>
+      ) : orphaned.length === 0 ? (
+        <div className="notes-browser-empty">Every note is linked to a task.</div>
+      ) : (
+        <ul className="notes-browser-list">
+          {orphaned.map(([key, note]) => (
+            <li key={key} className="notes-browser-item">
+              <div className="notes-browser-info">
+                <span className="notes-browser-title">{note.title || key}</span>
+                <span className="notes-browser-meta">
+                  {describeKey(key)} · {new Date(note.modifiedAt).toLocaleDateString()}
+                </span>
+                <span className="notes-browser-preview">{preview(note.notes)}</span>
+              </div>
+              <div className="notes-browser-actions">
+                <button
+                  ref={reassigningKey === key ? reassignTriggerRef : undefined}
+                  className="notes-browser-action"
+                  onClick={() => setReassigningKey(reassigningKey === key ? null : key)}
+                >
+                  Reassign
+                </button>
+                <button
+                  className="notes-browser-action danger"
+                  onClick={() => handleDelete(key)}
+                  onBlur={() => deleteArmed === key && setDeleteArmed(null)}
+                >
+                  {deleteArmed === key ? 'Confirm delete' : 'Delete'}
+                </button>
+                {reassigningKey === key && (
+                  <TaskSourcePicker
+                    tasks={taskSources.tasks}
+                    loading={taskSources.loading}
+                    search={taskSources.search}
+                    isOpen
+                    onOpenChange={(open) => !open && setReassigningKey(null)}
+                    onSelect={(task) => handleReassign(key, task)}
+                    triggerRef={reassignTriggerRef as React.RefObject<HTMLElement>}
+                  />
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Notes whose task can't be found: typed-in tasks, and tasks that were
+ * deleted or re-created elsewhere. Each can be moved onto an open task or
+ * deleted.
+ */
+export const TaskNotesBrowser = ({ isOpen, onClose }: TaskNotesBrowserProps) => (
+  <Modal isOpen={isOpen} onClose={onClose} title="Task Notes" width="md">
+    {/* Only read task sources while open */}
+    {isOpen && <OrphanedNotes />}
+  </Modal>
+);
@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTasks } from '../../hooks/useTasks';
+import { useTaskNotes } from '../../hooks/useTaskNotes';
+import { useUIStore } from '../../store/uiStore';
+import { useKeyboard } from '../../hooks/useKeyboard';
+import { taskNoteKey } from '../../sync/taskNotes';
+import { isOverEstimate } from '../../tasks/estimates';
+import { TaskNotesModal } from './TaskNotesModal';
+import type { Task, Subtask } from '../../models';
+import './TasksView.css';
+
+// One line in the list: a task, or one of its subtasks
+interface TaskRow {
+  key: string;
+  task: Task;
+  subtask?: Subtask;
+}
+
+// What the inline input is doing
+type Draft =
+  | { kind: 'add-task'; text: string }
+  | { kind: 'add-subtask'; taskId: string; text: string }
+  | { kind: 'edit'; rowKey: string; text: string }
+  | { kind: 'estimate'; taskId: string; text: string };
+
+const rowKey = (task: Task, subtask?: Subtask) => (subtask ? `${task.id}/${subtask.id}` : task.id);
+
+const HINTS = [
+  ['J/K', 'move'],
+  ['A', 'add task'],
+  ['S', 'add subtask'],
+  ['E', 'edit'],
+  ['T', 'estimate'],
+  ['X', 'done'],
+  ['Shift+J/K', 'reorder'],
+  ['DD', 'delete'],
+  ['N', 'notes'],
+  ['B', 'start block'],
+  ['C', 'show done'],
+];
+
+export const TasksView = () => {
+  const {
+    tasks,
+    createTask,
+    updateTaskTitle,
+    setTaskEstimate,
+    completeTask,
+    uncompleteTask,
+    removeTask,
+    addSubtask,
+    updateSubtask,
+    removeSubtask,
+    toggleSubtask,
+    moveTask,
+    moveSubtask,
+  } = useTasks();
+  const { getNote, saveNotes, hasNotes } = useTaskNotes();
+  const setCurrentView = useUIStore((s) => s.setCurrentView);
+  const setSelectedTaskId = useUIStore((s) => s.setSelectedTaskId);
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  // First D arms delete on the selected row, the second deletes it
+  const [deleteArmed, setDeleteArmed] = useState<string | null>(null);
+  const [notesTask, setNotesTask] = useState<Task | null>(null);
+  const rowRefs = useRef<Map<string, HTMLLIElement>>(new Map());
+
+  const rows = useMemo((): TaskRow[] =>
+    tasks
+      .filter((task) => showCompleted || !task.completed)
+      .flatMap((task) => [
+        { key: rowKey(task), task },
+        ...task.subtasks.map((subtask) => ({ key: rowKey(task, subtask), task, subtask })),
+      ]),
+    [tasks, showCompleted]
+  );
+
+  // Keep the selection on a row that still exists
+  const selectedIndex = Math.max(0, rows.findIndex((row) => row.key === selectedKey));
+  const selected: TaskRow | undefined = rows[selectedIndex];
+
+  useEffect(() => {
+    if (selected) rowRefs.current.get(selected.key)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const select = (index: number) => {
+    const row = rows[Math.min(Math.max(index, 0), rows.length - 1)];
+    if (row) setSelectedKey(row.key);
+    setDeleteArmed(null);
+  };
+
+  const handleBack = () => setCurrentView('block');
+
+  const commitDraft = () => {
+    if (!draft) return;
+    const text = draft.text.trim();
+    if (draft.kind === 'estimate') {
+      // Blank clears the estimate
+      const blocks = parseInt(text, 10);
+      if (!text) {
+        setTaskEstimate(draft.taskId, undefined);
+      } else if (blocks > 0) {
+        setTaskEstimate(draft.taskId, blocks);
+      }
+    } else if (text) {
+      if (draft.kind === 'add-task') {
+        setSelectedKey(createTask(text).id);
+      } else if (draft.kind === 'add-subtask') {
+        addSubtask(draft.taskId, text);
+      } else if (selected?.key === draft.rowKey) {
+        if (selected.subtask) {
+          updateSubtask(selected.task.id, selected.subtask.id, { title: text });
+        } else {
+          updateTaskTitle(selected.task.id, text);
+        }
+      }
+    }
+    setDraft(null);
+  };
+
+  const startEdit = () => {
+    if (!selected) return;
+    setDraft({ kind: 'edit', rowKey: selected.key, text: (selected.subtask ?? selected.task).title });
+  };
+
+  const startEstimate = () => {
+    if (!selected) return;
+    setDraft({ kind: 'estimate', taskId: selected.task.id, text: String(selected.task.estimatedBlocks ?? '') });
+  };
+
+  const toggleDone = () => {
+    if (!selected) return;
+    if (selected.subtask) {
+      toggleSubtask(selected.task.id, selected.subtask.id);
+    } else if (selected.task.completed) {
+      uncompleteTask(selected.task.id);
+    } else {
+      completeTask(selected.task.id);
+    }
+  };
+
+  const move = (direction: -1 | 1) => {
+    if (!selected) return;
+    if (selected.subtask) {
+      moveSubtask(selected.task.id, selected.subtask.id, direction);
+    } else {
+      moveTask(selected.task.id, direction);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (deleteArmed !== selected.key) {
+      setDeleteArmed(selected.key);
+      return;
+    }
+    if (selected.subtask) {
+      removeSubtask(selected.task.id, selected.subtask.id);
+    } else {
+      removeTask(selected.task.id);
+    }
+    setDeleteArmed(null);
+  };
+
+  // BlockView picks the task up from the store when it mounts
+  const startBlock = () => {
+    if (!selected || selected.task.completed) return;
+    setSelectedTaskId(selected.task.id);
+    setCurrentView('block');
+  };
+
+  // Inactive while typing, so text inputs get every key; the notes modal has its own.
+  // Navigation lives in the same bindings as reordering - a separate listener
+  // would also see Shift+J/K as plain J/K.
+  useKeyboard(notesTask ? {} : {
+    'k': () => select(selectedIndex - 1),
+    'arrowup': () => select(selectedIndex - 1),
+    'j': () => select(selectedIndex + 1),
+    'arrowdown': () => select(selectedIndex + 1),
+    'enter': startEdit,
+    'esc': handleBack,
+    'h': handleBack,
+    'shift+k': () => move(-1),
+    'shift+j': () => move(1),
+    'a': () => setDraft({ kind: 'add-task', text: '' }),
+    's': () => selected && setDraft({ kind: 'add-subtask', taskId: selected.task.id, text: '' }),
+    'e': startEdit,
+    't': startEstimate,
+    'x': toggleDone,
+    'space': toggleDone,
+    'd': handleDelete,
+    'n': () => selected && setNotesTask(selected.task),
+    'b': startBlock,
+    'c': () => setShowCompleted((show) => !show),
+  }, [notesTask, selected, deleteArmed, rows]);
+
+  const renderInput = (placeholder: string, type = 'text') => draft && (
+    <input
+      className={`tasks-input ${type === 'number' ? 'estimate' : ''}`}
+      type={type}
+      min={type === 'number' ? 1 : undefined}
+      autoFocus
+      value={draft.text}
+      placeholder={placeholder}
+      onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+      onBlur={() => setDraft(null)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitDraft();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+
+  const notesKey = notesTask ? taskNoteKey({ source: 'sanjou', id: notesTask.id }, notesTask.title) : null;
+  const openTaskCount = tasks.filter((task) => !task.completed).length;
+
+  return (
+    <div className="tasks-view">
+      <header className="tasks-header">
+        <button className="tasks-back" onClick={handleBack}>
+          <span className="tasks-back-arrow">←</span>
+          <span>Back</span>
+          <span className="tasks-back-hint">[H]</span>
+        </button>
+        <h1 className="tasks-title">Tasks</h1>
+        <div className="tasks-stats">
+          <span className="tasks-stat-count">{openTaskCount}</span>
+          <span className="tasks-stat-label">open</span>
+        </div>
+      </header>
+
+      <main className="tasks-content">
+        {draft?.kind === 'add-task' && renderInput('New task')}
+
+        {rows.length === 0 && draft?.kind !== 'add-task' ? (
+          <div className="tasks-empty">
+            <p>No tasks yet</p>
+            <p className="tasks-empty-hint">Press A to add one</p>
+          </div>
+        ) : (
+          <ul className="tasks-list">
+            {rows.map((row) => {
+              const item = row.subtask ?? row.task;
+              const isSelected = row.key === selected?.key;
+              const isEditing = draft?.kind === 'edit' && draft.rowKey === row.key;
+              // New subtasks are typed in below the task's last line
+              const lastOfTask = row.subtask
+                ? row.subtask.id === row.task.subtasks[row.task.subtasks.length - 1].id
+                : row.task.subtasks.length === 0;
+              const addingSubtask = draft?.kind === 'add-subtask' && draft.taskId === row.task.id && lastOfTask;
+              return (
+                <li
+                  key={row.key}
+                  ref={(el) => {
+                    if (el) rowRefs.current.set(row.key, el);
+                    else rowRefs.current.delete(row.key);
+                  }}
+                  className={[
+                    'tasks-row',
+                    row.subtask ? 'subtask' : 'task',
+                    item.completed ? 'completed' : '',
+                    isSelected ? 'selected' : '',
+                    deleteArmed === row.key ? 'delete-armed' : '',
+                  ].join(' ')}
+                  onClick={() => {
+                    setSelectedKey(row.key);
+                    setDeleteArmed(null);
+                  }}
+                >
+                  <div className="tasks-row-main">
+                    <span className="tasks-check">{item.completed ? '✓' : '○'}</span>
+                    {isEditing ? (
+                      renderInput('Title')
+                    ) : (
+                      <span className="tasks-row-title">{item.title}</span>
+                    )}
+                    {!row.subtask && (
+                      <>
+                        {hasNotes(taskNoteKey({ source: 'sanjou', id: row.task.id }, row.task.title)) && (
+                          <span className="tasks-badge" title="Has notes">notes</span>
+                        )}
+                        {row.task.subtasks.length > 0 && (
+                          <span className="tasks-badge">
+                            {row.task.subtasks.filter((st) => st.completed).length}/{row.task.subtasks.length}
+                          </span>
+                        )}
+                        {draft?.kind === 'estimate' && draft.taskId === row.task.id ? (
+                          renderInput('Blocks', 'number')
+                        ) : (
+                          <span
+                            className={`tasks-blocks ${row.task.estimatedBlocks && isOverEstimate({ estimated: row.task.estimatedBlocks, actual: row.task.blocksSpent }) ? 'over' : ''}`}
+                            title={row.task.estimatedBlocks ? 'Blocks spent / estimated' : 'Blocks spent'}
+                          >
+                            {row.task.estimatedBlocks
+                              ? `${row.task.blocksSpent}/${row.task.estimatedBlocks} blocks`
+                              : `${row.task.blocksSpent} ${row.task.blocksSpent === 1 ? 'block' : 'blocks'}`}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  {deleteArmed === row.key && (
+                    <div className="tasks-row-hint">Press D again to delete</div>
+                  )}
+                  {addingSubtask && renderInput('New subtask')}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+
+      <footer className="tasks-hints">
+        {HINTS.map(([keys, action]) => (
+          <span key={keys} className="tasks-hint">
+            <kbd>{keys}</kbd> {action}
+          </span>
+        ))}
+      </footer>
+
+      <TaskNotesModal
+        isOpen={!!notesTask}
+        onClose={() => setNotesTask(null)}
+        task={notesTask && notesKey ? { ...notesTask, id: notesKey, notes: getNote(notesKey)?.notes } : null}
+        onSave={(key, notes) => notesTask && saveNotes(key, notesTask.title, notes)}
+      />
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
 export { BlockView } from './BlockView';
 export { SettingsView } from './SettingsView';
 export { HistoryView } from './HistoryView';
+export { TasksView } from './TasksView';
 export { TaskPicker } from './TaskPicker';
 export { RightNowListPanel } from './RightNowListPanel';
 export { ShortcutsOverlay } from './ShortcutsOverlay';
 export { BreakView } from './BreakView';
 export { StatsView } from './StatsView';
 export { TaskNotesModal } from './TaskNotesModal';
+export { TaskNotesBrowser } from './TaskNotesBrowser';
 export { AuthView } from './AuthView';
+export type { AuthMode } from './AuthView';
+export { ResumeBlockModal } from './ResumeBlockModal';
+export { MergeAccountModal } from './MergeAccountModal';
+export { SyncDiagnosticsModal } from './SyncDiagnosticsModal';
+export { SubeteTaskActions } from './SubeteTaskActions';
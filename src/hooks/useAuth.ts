@@ -66,7 +66,7 @@ export const useAuth = (): UseAuthReturn => {
 
   return {
     user,
-    isAuthenticated: !!user,
+    isAuthenticated: !!user && !user.isAnonymous, // anonymous users only back up this device
     isLoading,
     isAuthAvailable,
     signIn: handleSignIn,
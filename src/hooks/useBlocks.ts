@@ -1,45 +1,58 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { Block, BlockMeta } from '../models';
-import { generateId, getToday } from '../models';
+import type { Block, BlockEvent, BlockMeta, BlockMode, InterruptionReason, TaskRef } from '../models';
+import { generateId } from '../models';
+import { getDayKey, getToday, getBlockDay } from '../utils/date';
+import { useSettingsStore } from '../store/settingsStore';
+import { formatTaskRef, parseTaskRef } from '../tasks/taskProvider';
 import {
   blocksArray,
   addBlock,
   updateBlock,
+  appendBlockEvent,
   subscribeToBlocks,
 } from '../sync/yjsProvider';
 
+interface CompleteBlockOptions {
+  celebrated?: boolean;
+  completedAt?: number; // defaults to now; earlier for retroactive completion
+  duration?: number; // actual focused minutes
+}
+
 interface UseBlocksReturn {
   blocks: Block[];
   todayBlocks: Block[];
   todayValidCount: number;
-  createBlock: (taskId?: string, meta?: BlockMeta) => Block;
-  completeBlock: (id: string, celebrated?: boolean) => void;
+  createBlock: (task: TaskRef | null, taskText: string, meta?: BlockMeta, mode?: BlockMode) => Block;
+  completeBlock: (id: string, options?: CompleteBlockOptions) => void;
   invalidateBlock: (id: string) => void;
+  interruptBlock: (id: string, reason?: InterruptionReason) => void;
+  logBlockEvent: (id: string, type: BlockEvent['type']) => void;
+  setBlockOvertime: (id: string, minutes: number) => void;
   updateBlockNotes: (id: string, notes: string) => void;
   getBlock: (id: string) => Block | undefined;
 }
 
 export const useBlocks = (): UseBlocksReturn => {
-  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [blocks, setBlocks] = useState<Block[]>(() => blocksArray.toArray());
 
   useEffect(() => {
-    // Initial load
-    setBlocks(blocksArray.toArray());
-
     // Subscribe to changes
     const unsubscribe = subscribeToBlocks(setBlocks);
     return unsubscribe;
   }, []);
 
-  const todayBlocks = blocks.filter((b) => b.date === getToday());
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
+  const todayBlocks = blocks.filter((b) => getBlockDay(b, dayStartHour) === getToday());
   const todayValidCount = todayBlocks.filter((b) => b.isValid && b.completedAt).length;
 
-  const createBlock = useCallback((taskId?: string, meta?: BlockMeta): Block => {
+  const createBlock = useCallback((task: TaskRef | null, taskText: string, meta?: BlockMeta, mode: BlockMode = 'countdown'): Block => {
+    const startedAt = Date.now();
     const block: Block = {
       id: generateId(),
-      date: getToday(),
-      startedAt: Date.now(),
-      taskId,
+      date: getDayKey(startedAt),
+      startedAt,
+      ...(task && { taskId: formatTaskRef(task) }),
+      ...(taskText.trim() && { taskText: taskText.trim() }),
       meta: meta || {
         finishLinePictured: false,
         notInterrupted: false,
@@ -48,14 +61,17 @@ export const useBlocks = (): UseBlocksReturn => {
         celebrated: false,
       },
       isValid: true,
+      mode,
     };
     addBlock(block);
     return block;
   }, []);
 
-  const completeBlock = useCallback((id: string, celebrated = false) => {
+  const completeBlock = useCallback((id: string, options: CompleteBlockOptions = {}) => {
+    const { celebrated = false, completedAt = Date.now(), duration } = options;
     updateBlock(id, {
-      completedAt: Date.now(),
+      completedAt,
+      ...(duration !== undefined && { duration }),
       meta: {
         ...blocks.find((b) => b.id === id)?.meta,
         celebrated,
@@ -67,6 +83,19 @@ export const useBlocks = (): UseBlocksReturn => {
     updateBlock(id, { isValid: false });
   }, []);
 
+  const interruptBlock = useCallback((id: string, reason?: InterruptionReason) => {
+    appendBlockEvent(id, { type: 'interrupt', at: Date.now(), ...(reason && { reason }) });
+    updateBlock(id, { isValid: false });
+  }, []);
+
+  const logBlockEvent = useCallback((id: string, type: BlockEvent['type']) => {
+    appendBlockEvent(id, { type, at: Date.now() });
+  }, []);
+
+  const setBlockOvertime = useCallback((id: string, minutes: number) => {
+    updateBlock(id, { overtime: minutes });
+  }, []);
+
   const updateBlockNotes = useCallback((id: string, notes: string) => {
     updateBlock(id, { notes });
   }, []);
@@ -83,7 +112,70 @@ export const useBlocks = (): UseBlocksReturn => {
     createBlock,
     completeBlock,
     invalidateBlock,
+    interruptBlock,
+    logBlockEvent,
+    setBlockOvertime,
     updateBlockNotes,
     getBlock,
   };
 };
+
+export interface BlockTiming {
+  wallMs: number; // start to end, including pauses
+  pausedMs: number;
+  focusMs: number; // wall time minus pauses
+  pauseCount: number;
+}
+
+/**
+ * Derive wall vs. net focus time from a block's event log.
+ * A block ends at completion, at its interruption, or now if still running.
+ */
+export const getBlockTiming = (block: Block, now = Date.now()): BlockTiming => {
+  const events = block.events || [];
+  const interrupt = events.find((e) => e.type === 'interrupt');
+  const end = block.completedAt ?? interrupt?.at ?? now;
+
+  let pausedMs = 0;
+  let pauseCount = 0;
+  let pausedAt: number | null = null;
+  for (const event of events) {
+    if (event.type === 'pause') {
+      pausedAt = event.at;
+      pauseCount++;
+    } else if (pausedAt !== null) {
+      pausedMs += event.at - pausedAt;
+      pausedAt = null;
+    }
+  }
+  if (pausedAt !== null) {
+    pausedMs += Math.max(0, end - pausedAt);
+  }
+
+  const wallMs = Math.max(0, end - block.startedAt);
+  return {
+    wallMs,
+    pausedMs,
+    focusMs: Math.max(0, wallMs - pausedMs),
+    pauseCount,
+  };
+};
+
+// The task a block was for, if one was picked
+export const getBlockTask = (block: Block): TaskRef | null => {
+  if (!block.taskId) return null;
+  return parseTaskRef(block.taskId) ?? { source: 'sanjou', id: block.taskId };
+};
+
+export const getInterruptionReason = (block: Block): InterruptionReason | undefined => {
+  return block.events?.find((e) => e.type === 'interrupt')?.reason;
+};
+
+/**
+ * Focused minutes for a block - the recorded duration when present,
+ * otherwise derived from its timestamps - plus any overtime
+ */
+export const getBlockMinutes = (block: Block): number => {
+  const base = block.duration ?? Math.round(getBlockTiming(block).focusMs / 60000);
+  return base + (block.overtime ?? 0);
+};
@@ -1,11 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { addBreak, updateBreak, subscribeToBreaks, breaksArray } from '../sync/yjsProvider';
 import { generateId } from '../models';
-import type { Break } from '../models';
+import type { Break, BreakKind } from '../models';
 
 interface UseBreaksReturn {
   breaks: Break[];
-  startBreak: (duration: number) => Break;
+  startBreak: (duration: number, kind?: BreakKind) => Break;
   endBreak: (id: string, notes?: string) => void;
   getBreak: (id: string) => Break | undefined;
 }
@@ -18,11 +18,12 @@ export const useBreaks = (): UseBreaksReturn => {
     return unsubscribe;
   }, []);
 
-  const startBreak = useCallback((duration: number): Break => {
+  const startBreak = useCallback((duration: number, kind: BreakKind = 'short'): Break => {
     const breakItem: Break = {
       id: generateId(),
       startedAt: Date.now(),
       duration,
+      kind,
     };
     addBreak(breakItem);
     return breakItem;
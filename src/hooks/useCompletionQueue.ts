@@ -0,0 +1,24 @@
+import { useCompletionQueueStore, QueuedCompletion } from '../store/completionQueueStore';
+import { retryDeadLetters, discardDeadLetter, retryPendingCompletions } from '../sync/completionSync';
+
+interface UseCompletionQueueReturn {
+  pendingCount: number;
+  deadLetters: QueuedCompletion[];
+  retryPending: () => void;
+  retryDeadLetters: (id?: string) => void;
+  discardDeadLetter: (id: string) => void;
+}
+
+// Subete completions waiting for, or given up on, the shared completions.json
+export const useCompletionQueue = (): UseCompletionQueueReturn => {
+  const pendingCount = useCompletionQueueStore((s) => s.pending.length);
+  const deadLetters = useCompletionQueueStore((s) => s.deadLetters);
+
+  return {
+    pendingCount,
+    deadLetters,
+    retryPending: retryPendingCompletions,
+    retryDeadLetters,
+    discardDeadLetter,
+  };
+};
@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { useBlocks } from './useBlocks';
+import { useBreaks } from './useBreaks';
+import { useSettingsStore } from '../store/settingsStore';
+import type { Block, Break, BreakKind } from '../models';
+
+interface UseCycleReturn {
+  count: number; // valid blocks in the current cycle
+  target: number; // blocks until a long break
+  isLongBreakDue: boolean;
+  nextBreakKind: BreakKind;
+  nextBreakDuration: number; // minutes
+}
+
+/**
+ * Count consecutive valid blocks since the last long break.
+ * A gap longer than `idleResetMs` between blocks (or since the last block)
+ * starts a fresh cycle; interrupted blocks neither count nor reset.
+ */
+export const getCycleCount = (
+  blocks: Block[],
+  breaks: Break[],
+  idleResetMs: number,
+  now = Date.now()
+): number => {
+  const lastLongBreak = breaks
+    .filter((b) => b.kind === 'long')
+    .reduce((latest, b) => Math.max(latest, b.startedAt), 0);
+
+  const completed = blocks
+    .filter((b) => b.isValid && b.completedAt && b.startedAt >= lastLongBreak)
+    .sort((a, b) => a.startedAt - b.startedAt);
+
+  let count = 0;
+  let lastEnd: number | null = null;
+  for (const block of completed) {
+    if (lastEnd !== null && block.startedAt - lastEnd > idleResetMs) {
+      count = 0;
+    }
+    count++;
+    lastEnd = block.completedAt!;
+  }
+
+  if (lastEnd === null) return 0;
+
+  // A block in progress continues the cycle from when it started
+  const inProgress = blocks.find((b) => b.isValid && !b.completedAt && b.startedAt > lastEnd!);
+  const reference = inProgress?.startedAt ?? now;
+  return reference - lastEnd > idleResetMs ? 0 : count;
+};
+
+export const useCycle = (): UseCycleReturn => {
+  const { blocks } = useBlocks();
+  const { breaks } = useBreaks();
+  const breakDuration = useSettingsStore((s) => s.breakDuration);
+  const longBreakDuration = useSettingsStore((s) => s.longBreakDuration);
+  const target = useSettingsStore((s) => s.blocksUntilLongBreak);
+  const cycleResetMinutes = useSettingsStore((s) => s.cycleResetMinutes);
+
+  return useMemo(() => {
+    const count = getCycleCount(blocks, breaks, cycleResetMinutes * 60 * 1000);
+    const isLongBreakDue = count >= target;
+    return {
+      count,
+      target,
+      isLongBreakDue,
+      nextBreakKind: isLongBreakDue ? 'long' : 'short',
+      nextBreakDuration: isLongBreakDue ? longBreakDuration : breakDuration,
+    };
+  }, [blocks, breaks, target, cycleResetMinutes, breakDuration, longBreakDuration]);
+};
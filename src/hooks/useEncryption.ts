@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  subscribeEncryptionStatus,
+  unlockSync,
+  enableEncryption,
+  changePassphrase,
+  EncryptionStatus,
+} from '../sync/firebaseSync';
+
+interface UseEncryptionReturn {
+  status: EncryptionStatus;
+  isWorking: boolean;
+  unlock: (passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  enable: (passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  changePassphrase: (current: string, next: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+export const useEncryption = (): UseEncryptionReturn => {
+  const [status, setStatus] = useState<EncryptionStatus>('off');
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = subscribeEncryptionStatus(setStatus);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const handleUnlock = useCallback(async (passphrase: string) => {
+    setIsWorking(true);
+    const result = await unlockSync(passphrase);
+    setIsWorking(false);
+    return result;
+  }, []);
+
+  const handleEnable = useCallback(async (passphrase: string) => {
+    setIsWorking(true);
+    const result = await enableEncryption(passphrase);
+    setIsWorking(false);
+    return result;
+  }, []);
+
+  const handleChangePassphrase = useCallback(async (current: string, next: string) => {
+    setIsWorking(true);
+    const result = await changePassphrase(current, next);
+    setIsWorking(false);
+    return result;
+  }, []);
+
+  return {
+    status,
+    isWorking,
+    unlock: handleUnlock,
+    enable: handleEnable,
+    changePassphrase: handleChangePassphrase,
+  };
+};
@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useTasks } from './useTasks';
+import {
+  summarizeEstimates,
+  isOverEstimate,
+  EstimateProgress,
+  EstimateSample,
+  EstimateAccuracy,
+} from '../tasks/estimates';
+import { formatTaskRef } from '../tasks/taskProvider';
+import type { TaskRef } from '../models';
+
+interface Overrun extends EstimateProgress {
+  key: string;
+  title: string;
+}
+
+interface EstimateStats extends EstimateAccuracy {
+  overruns: Overrun[]; // open tasks already past their estimate
+}
+
+/**
+ * Estimate and blocks so far for one task, or null if it has no estimate
+ * Only Sanjou tasks are estimated in blocks; Subete's `time` is in its own units.
+ */
+export const useTaskEstimate = (task: TaskRef | null): EstimateProgress | null => {
+  const { getTask } = useTasks();
+
+  return useMemo(() => {
+    if (task?.source !== 'sanjou') return null;
+    const sanjouTask = getTask(task.id);
+    return sanjouTask?.estimatedBlocks
+      ? { estimated: sanjouTask.estimatedBlocks, actual: sanjouTask.blocksSpent }
+      : null;
+  }, [task, getTask]);
+};
+
+/**
+ * Estimation accuracy across finished Sanjou tasks, for StatsView
+ */
+export const useEstimateStats = (): EstimateStats => {
+  const { tasks } = useTasks();
+
+  return useMemo(() => {
+    const samples: EstimateSample[] = [];
+    const overruns: Overrun[] = [];
+
+    tasks.forEach((task) => {
+      if (!task.estimatedBlocks) return;
+      const key = formatTaskRef({ source: 'sanjou', id: task.id });
+      const progress = { estimated: task.estimatedBlocks, actual: task.blocksSpent };
+      if (!task.completed) {
+        if (isOverEstimate(progress)) overruns.push({ key, title: task.title, ...progress });
+      } else if (progress.actual > 0) {
+        samples.push({ key, source: 'sanjou', title: task.title, ...progress, finishedAt: task.completedAt ?? task.modifiedAt });
+      }
+    });
+
+    return { ...summarizeEstimates(samples), overruns };
+  }, [tasks]);
+};
@@ -3,6 +3,7 @@ import { save } from '@tauri-apps/plugin-dialog';
 import { writeTextFile } from '@tauri-apps/plugin-fs';
 import { useBlocks } from './useBlocks';
 import { useBreaks } from './useBreaks';
+import { getToday, getBlockDay } from '../utils/date';
 import type { Block, Break } from '../models';
 
 type ExportFormat = 'json' | 'csv';
@@ -25,6 +26,7 @@ const blocksToCsv = (blocks: Block[]): string => {
     'startedAt',
     'completedAt',
     'taskId',
+    'taskText',
     'isValid',
     'finishLinePictured',
     'notInterrupted',
@@ -36,10 +38,11 @@ const blocksToCsv = (blocks: Block[]): string => {
 
   const rows = blocks.map((block) => [
     block.id,
-    block.date,
+    getBlockDay(block),
     formatTimestamp(block.startedAt),
     block.completedAt ? formatTimestamp(block.completedAt) : '',
     block.taskId || '',
+    block.taskText ? `"${block.taskText.replace(/"/g, '""')}"` : '',
     block.isValid.toString(),
     block.meta.finishLinePictured.toString(),
     block.meta.notInterrupted.toString(),
@@ -64,7 +67,7 @@ export const useExport = (): UseExportReturn => {
   const exportData = useCallback(
     async (format: ExportFormat): Promise<boolean> => {
       try {
-        const timestamp = new Date().toISOString().split('T')[0];
+        const timestamp = getToday();
         const defaultPath =
           format === 'json'
             ? `sanjou-export-${timestamp}.json`
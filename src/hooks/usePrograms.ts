@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  programsMap,
+  addProgram,
+  updateProgram,
+  deleteProgram as removeProgram,
+  getPrograms,
+  subscribeToPrograms,
+} from '../sync/yjsProvider';
+import { generateId } from '../models';
+import type { IntervalProgram, IntervalSegment } from '../models';
+import { useSettingsStore } from '../store/settingsStore';
+import { useUIStore } from '../store/uiStore';
+
+// Built into every install, so they are not stored in the synced doc
+export const PRESET_PROGRAMS: IntervalProgram[] = [
+  {
+    id: 'preset-52-17',
+    name: '52 / 17',
+    segments: [
+      { kind: 'work', minutes: 52 },
+      { kind: 'short', minutes: 17 },
+    ],
+    createdAt: 0,
+    modifiedAt: 0,
+  },
+  {
+    id: 'preset-90-20',
+    name: '90 / 20',
+    segments: [
+      { kind: 'work', minutes: 90 },
+      { kind: 'long', minutes: 20 },
+    ],
+    createdAt: 0,
+    modifiedAt: 0,
+  },
+  {
+    id: 'preset-ultradian',
+    name: 'Ultradian ramp',
+    segments: [
+      { kind: 'work', minutes: 30 },
+      { kind: 'short', minutes: 5 },
+      { kind: 'work', minutes: 45 },
+      { kind: 'short', minutes: 10 },
+      { kind: 'work', minutes: 90 },
+      { kind: 'long', minutes: 20 },
+    ],
+    createdAt: 0,
+    modifiedAt: 0,
+  },
+];
+
+export const isPresetProgram = (id: string): boolean => id.startsWith('preset-');
+
+export interface ProgramPosition {
+  index: number;
+  segment: IntervalSegment;
+}
+
+/**
+ * First segment of the wanted type at or after `step`, wrapping around
+ * so programs repeat. Null if the program has no such segment.
+ */
+export const findNextSegment = (
+  program: IntervalProgram,
+  step: number,
+  type: 'work' | 'break'
+): ProgramPosition | null => {
+  const { segments } = program;
+  for (let offset = 0; offset < segments.length; offset++) {
+    const index = (step + offset) % segments.length;
+    const segment = segments[index];
+    if ((segment.kind === 'work') === (type === 'work')) {
+      return { index, segment };
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse a sequence like "25/5, 25/5, 25/5, 25/15L" - each entry is work minutes,
+ * optionally followed by break minutes; a trailing L marks a long break.
+ * Returns null if the text is not a valid sequence.
+ */
+export const parseSegments = (text: string): IntervalSegment[] | null => {
+  const entries = text.split(/[,\s]+/).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const segments: IntervalSegment[] = [];
+  for (const entry of entries) {
+    const match = entry.match(/^(\d+)(?:\/(\d+)(l)?)?$/i);
+    if (!match) return null;
+    const work = parseInt(match[1]);
+    if (work <= 0) return null;
+    segments.push({ kind: 'work', minutes: work });
+    if (match[2]) {
+      const rest = parseInt(match[2]);
+      if (rest <= 0) return null;
+      segments.push({ kind: match[3] ? 'long' : 'short', minutes: rest });
+    }
+  }
+  return segments;
+};
+
+// Inverse of parseSegments
+export const formatSegments = (segments: IntervalSegment[]): string => {
+  const entries: string[] = [];
+  segments.forEach((segment) => {
+    if (segment.kind === 'work') {
+      entries.push(`${segment.minutes}`);
+    } else if (entries.length > 0 && !entries[entries.length - 1].includes('/')) {
+      entries[entries.length - 1] += `/${segment.minutes}${segment.kind === 'long' ? 'L' : ''}`;
+    }
+  });
+  return entries.join(', ');
+};
+
+interface UseProgramsReturn {
+  programs: IntervalProgram[]; // presets first, then synced custom programs
+  activeProgram: IntervalProgram | null;
+  step: number;
+  nextWork: ProgramPosition | null;
+  nextBreak: ProgramPosition | null; // break right after nextWork; null if work follows
+  dueBreak: ProgramPosition | null; // break due now that a work segment has finished
+  selectProgram: (id: string | null) => void;
+  createProgram: (name: string, segments: IntervalSegment[]) => IntervalProgram;
+  editProgram: (id: string, updates: Pick<IntervalProgram, 'name' | 'segments'>) => void;
+  deleteProgram: (id: string) => void;
+  advancePast: (index: number) => void;
+}
+
+export const usePrograms = (): UseProgramsReturn => {
+  const [customPrograms, setCustomPrograms] = useState<IntervalProgram[]>(() => getPrograms());
+  const activeProgramId = useSettingsStore((s) => s.activeProgramId);
+  const setActiveProgramId = useSettingsStore((s) => s.setActiveProgramId);
+  const step = useUIStore((s) => s.programStep);
+  const setProgramStep = useUIStore((s) => s.setProgramStep);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToPrograms(setCustomPrograms);
+    return unsubscribe;
+  }, []);
+
+  const programs = useMemo(() => [...PRESET_PROGRAMS, ...customPrograms], [customPrograms]);
+
+  // A program deleted on another device falls back to plain settings
+  const activeProgram = programs.find((p) => p.id === activeProgramId) ?? null;
+
+  // Back-to-back work segments run one after the other, with no break between
+  const segmentAt = (index: number): ProgramPosition | null => {
+    if (!activeProgram || activeProgram.segments.length === 0) return null;
+    const wrapped = index % activeProgram.segments.length;
+    return { index: wrapped, segment: activeProgram.segments[wrapped] };
+  };
+  const isBreak = (position: ProgramPosition | null) => !!position && position.segment.kind !== 'work';
+
+  const nextWork = activeProgram ? findNextSegment(activeProgram, step, 'work') : null;
+  const afterWork = nextWork ? segmentAt(nextWork.index + 1) : null;
+  const nextBreak = isBreak(afterWork) ? afterWork : null;
+  const due = segmentAt(step);
+  const dueBreak = isBreak(due) ? due : null;
+
+  const selectProgram = useCallback((id: string | null) => {
+    setActiveProgramId(id);
+    setProgramStep(0);
+  }, [setActiveProgramId, setProgramStep]);
+
+  const createProgram = useCallback((name: string, segments: IntervalSegment[]): IntervalProgram => {
+    const now = Date.now();
+    const program: IntervalProgram = {
+      id: generateId(),
+      name,
+      segments,
+      createdAt: now,
+      modifiedAt: now,
+    };
+    addProgram(program);
+    return program;
+  }, []);
+
+  const editProgram = useCallback((id: string, updates: Pick<IntervalProgram, 'name' | 'segments'>) => {
+    if (isPresetProgram(id)) return;
+    updateProgram(id, updates);
+    if (id === activeProgramId) setProgramStep(0);
+  }, [activeProgramId, setProgramStep]);
+
+  const deleteProgram = useCallback((id: string) => {
+    if (isPresetProgram(id) || !programsMap.has(id)) return;
+    removeProgram(id);
+    if (id === activeProgramId) selectProgram(null);
+  }, [activeProgramId, selectProgram]);
+
+  // Move on to the segment after the one just run
+  const advancePast = useCallback((index: number) => {
+    if (!activeProgram) return;
+    setProgramStep((index + 1) % activeProgram.segments.length);
+  }, [activeProgram, setProgramStep]);
+
+  return {
+    programs,
+    activeProgram,
+    step,
+    nextWork,
+    nextBreak,
+    dueBreak,
+    selectProgram,
+    createProgram,
+    editProgram,
+    deleteProgram,
+    advancePast,
+  };
+};
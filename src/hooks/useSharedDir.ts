@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { open } from '@tauri-apps/plugin-dialog';
+import { getSharedDirStatus, SharedDirStatus } from '../sync/sharedDir';
+import { useSettingsStore } from '../store/settingsStore';
+
+interface UseSharedDirReturn {
+  status: SharedDirStatus | null; // null until checked, or outside the desktop app
+  refresh: () => Promise<void>;
+  chooseDir: () => Promise<string | null>;
+}
+
+export const useSharedDir = (): UseSharedDirReturn => {
+  const [status, setStatus] = useState<SharedDirStatus | null>(null);
+  const subeteSharedDir = useSettingsStore((s) => s.subeteSharedDir);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getSharedDirStatus());
+    } catch (error) {
+      console.warn('[SharedDir] Failed to check shared directory:', error);
+      setStatus(null);
+    }
+  }, []);
+
+  // Re-check whenever the override changes
+  useEffect(() => {
+    refresh();
+  }, [refresh, subeteSharedDir]);
+
+  const chooseDir = useCallback(async (): Promise<string | null> => {
+    try {
+      // Picking adds the directory to the fs scope; persisted-scope keeps it across restarts
+      const selected = await open({ directory: true, title: 'Choose the Subete shared directory' });
+      return typeof selected === 'string' ? selected : null;
+    } catch (error) {
+      console.warn('[SharedDir] Directory picker failed:', error);
+      return null;
+    }
+  }, []);
+
+  return { status, refresh, chooseDir };
+};
@@ -1,5 +1,7 @@
 import { useMemo } from 'react';
-import { useBlocks } from './useBlocks';
+import { useBlocks, getBlockTiming, getBlockMinutes } from './useBlocks';
+import { getToday, addDays, getStartOfWeek, getStartOfMonth, parseDayKey, getBlockDay } from '../utils/date';
+import { useSettingsStore } from '../store/settingsStore';
 
 interface DayStats {
   date: string;
@@ -21,48 +23,33 @@ interface Stats {
   completionRate: number;
   dailyAverage: number;
   weeklyTrend: DayStats[];
+  focusMinutes: number; // net of pauses
+  wallMinutes: number; // start to end, pauses included
+  overtimeMinutes: number; // worked past the end of completed blocks
+  pauseCount: number;
+  interruptionCount: number;
   bestDay: { date: string; count: number } | null;
 }
 
-const getDateString = (date: Date): string => {
-  return date.toISOString().split('T')[0];
-};
-
-const getDaysAgo = (days: number): string => {
-  const date = new Date();
-  date.setDate(date.getDate() - days);
-  return getDateString(date);
-};
-
-const getStartOfWeek = (): Date => {
-  const now = new Date();
-  const day = now.getDay();
-  const diff = now.getDate() - day;
-  return new Date(now.setDate(diff));
-};
-
-const getStartOfMonth = (): Date => {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), 1);
-};
-
 export const useStats = (): Stats => {
   const { blocks } = useBlocks();
+  const dayStartHour = useSettingsStore((s) => s.dayStartHour);
 
   return useMemo(() => {
-    const today = getDateString(new Date());
-    const weekStart = getDateString(getStartOfWeek());
-    const monthStart = getDateString(getStartOfMonth());
+    const today = getToday();
+    const weekStart = getStartOfWeek(today);
+    const monthStart = getStartOfMonth(today);
 
     // Group blocks by date
     const blocksByDate = new Map<string, { total: number; valid: number }>();
     blocks.forEach(block => {
-      const existing = blocksByDate.get(block.date) || { total: 0, valid: 0 };
+      const date = getBlockDay(block, dayStartHour);
+      const existing = blocksByDate.get(date) || { total: 0, valid: 0 };
       existing.total++;
       if (block.isValid && block.completedAt) {
         existing.valid++;
       }
-      blocksByDate.set(block.date, existing);
+      blocksByDate.set(date, existing);
     });
 
     // Today stats
@@ -95,6 +82,24 @@ export const useStats = (): Stats => {
     const totalValidBlocks = blocks.filter(b => b.isValid && b.completedAt).length;
     const completionRate = totalBlocks > 0 ? totalValidBlocks / totalBlocks : 0;
 
+    // Focus vs. wall time across finished blocks (completed or interrupted)
+    let focusMinutes = 0;
+    let wallMs = 0;
+    let overtimeMinutes = 0;
+    let pauseCount = 0;
+    let interruptionCount = 0;
+    blocks.forEach(block => {
+      const interrupted = block.events?.some(e => e.type === 'interrupt') ?? false;
+      if (interrupted) interruptionCount++;
+      if (!block.completedAt && !interrupted) return;
+      const timing = getBlockTiming(block);
+      focusMinutes += block.completedAt ? getBlockMinutes(block) : Math.round(timing.focusMs / 60000);
+      // Overtime runs after completedAt, so it is missing from the timestamps
+      wallMs += timing.wallMs + (block.overtime ?? 0) * 60000;
+      overtimeMinutes += block.overtime ?? 0;
+      pauseCount += timing.pauseCount;
+    });
+
     // Calculate streaks (consecutive days with at least 1 valid block)
     const sortedDates = Array.from(blocksByDate.entries())
       .filter(([_, stats]) => stats.valid > 0)
@@ -112,9 +117,7 @@ export const useStats = (): Stats => {
         tempStreak++;
         if (tempStreak > longestStreak) longestStreak = tempStreak;
         // Move to previous day
-        const d = new Date(expectedDate);
-        d.setDate(d.getDate() - 1);
-        expectedDate = getDateString(d);
+        expectedDate = addDays(expectedDate, -1);
       } else if (date < expectedDate) {
         // Streak broken, but check if this starts a new streak
         if (currentStreak === 0) {
@@ -122,9 +125,7 @@ export const useStats = (): Stats => {
         }
         // Reset for potential new streak
         tempStreak = 1;
-        const d = new Date(date);
-        d.setDate(d.getDate() - 1);
-        expectedDate = getDateString(d);
+        expectedDate = addDays(date, -1);
       }
     }
     if (currentStreak === 0) {
@@ -135,7 +136,7 @@ export const useStats = (): Stats => {
     // Weekly trend (last 7 days)
     const weeklyTrend: DayStats[] = [];
     for (let i = 6; i >= 0; i--) {
-      const date = getDaysAgo(i);
+      const date = addDays(today, -i);
       const stats = blocksByDate.get(date) || { total: 0, valid: 0 };
       weeklyTrend.push({
         date,
@@ -170,17 +171,28 @@ export const useStats = (): Stats => {
       completionRate,
       dailyAverage,
       weeklyTrend,
+      focusMinutes,
+      wallMinutes: Math.round(wallMs / 60000),
+      overtimeMinutes,
+      pauseCount,
+      interruptionCount,
       bestDay,
     };
-  }, [blocks]);
+  }, [blocks, dayStartHour]);
 };
 
 export const formatDate = (dateString: string): string => {
-  const date = new Date(dateString + 'T00:00:00');
+  const date = parseDayKey(dateString);
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 };
 
 export const getDayOfWeek = (dateString: string): string => {
-  const date = new Date(dateString + 'T00:00:00');
+  const date = parseDayKey(dateString);
   return date.toLocaleDateString('en-US', { weekday: 'short' }).charAt(0);
 };
+
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
@@ -0,0 +1,36 @@
+import { useCallback, useMemo } from 'react';
+import { useSubeteTasksStore } from '../store/subeteTasksStore';
+import { sendSubeteCommand, SubeteCommand, SubeteCommandInput } from '../sync/subeteCommands';
+import { showToast } from '../store/toastStore';
+
+interface UseSubeteCommandsReturn {
+  pending: SubeteCommand[]; // Sent for this task, not yet acknowledged by Subete
+  markDone: () => Promise<boolean>;
+  setStatus: (status: string) => Promise<boolean>;
+  reEstimate: (time: number) => Promise<boolean>;
+}
+
+// Commands from Sanjou to Subete about one task
+export const useSubeteCommands = (taskId: string | null): UseSubeteCommandsReturn => {
+  const pendingCommands = useSubeteTasksStore((s) => s.pendingCommands);
+
+  const pending = useMemo(
+    () => pendingCommands.filter((command) => command.taskId === taskId),
+    [pendingCommands, taskId]
+  );
+
+  const send = useCallback(async (input: Omit<SubeteCommandInput, 'taskId'>) => {
+    if (!taskId) return false;
+    const result = await sendSubeteCommand({ ...input, taskId });
+    if (!result.success) {
+      showToast.error(`Couldn't send to Subete: ${result.error}`);
+    }
+    return result.success;
+  }, [taskId]);
+
+  const markDone = useCallback(() => send({ type: 'mark_done' }), [send]);
+  const setStatus = useCallback((status: string) => send({ type: 'set_status', status }), [send]);
+  const reEstimate = useCallback((time: number) => send({ type: 're_estimate', time }), [send]);
+
+  return { pending, markDone, setStatus, reEstimate };
+};
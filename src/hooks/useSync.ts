@@ -1,28 +1,37 @@
 import { useEffect } from 'react';
 import { initLocalPersistence, destroyLocalPersistence } from '../sync/yjsProvider';
-import {
-  initAuthAwareSync,
-  destroyAuthAwareSync,
-  subscribeSyncState,
-} from '../sync/firebaseSync';
+import { startSyncProvider, stopSyncProvider, subscribeSyncState } from '../sync/syncProvider';
+import { getSyncProvider } from '../sync/providers';
+import { initSettingsSync } from '../sync/settingsSync';
+import { initCompletionQueue } from '../sync/completionSync';
+import { initTaskNotesMigration } from '../sync/taskNotes';
 import { useUIStore } from '../store/uiStore';
+import { useSettingsStore } from '../store/settingsStore';
 
 export const useSync = () => {
   const setSyncState = useUIStore((s) => s.setSyncState);
   const setDataLoaded = useUIStore((s) => s.setDataLoaded);
+  const dataLoaded = useUIStore((s) => s.dataLoaded);
+  const syncBackend = useSettingsStore((s) => s.syncBackend);
+  const syncServerUrl = useSettingsStore((s) => s.syncServerUrl);
+  const syncRoom = useSettingsStore((s) => s.syncRoom);
+  const syncToken = useSettingsStore((s) => s.syncToken);
+  const anonymousSync = useSettingsStore((s) => s.anonymousSync);
 
   useEffect(() => {
     let mounted = true;
+    let stopSettingsSync: (() => void) | null = null;
+    let stopNotesMigration: (() => void) | null = null;
 
     const init = async () => {
       // First, load local data from IndexedDB
       await initLocalPersistence();
 
       if (!mounted) return;
+      stopSettingsSync = initSettingsSync();
+      initCompletionQueue();
+      stopNotesMigration = initTaskNotesMigration();
       setDataLoaded(true);
-
-      // Then, setup Firebase sync with auth awareness
-      await initAuthAwareSync();
     };
 
     // Subscribe to sync state changes
@@ -37,8 +46,18 @@ export const useSync = () => {
     return () => {
       mounted = false;
       unsubscribe();
-      destroyAuthAwareSync();
+      stopSettingsSync?.();
+      stopNotesMigration?.();
       destroyLocalPersistence();
     };
   }, [setSyncState, setDataLoaded]);
+
+  // Then sync remotely once local data is in; restarts when the backend or server changes
+  useEffect(() => {
+    if (!dataLoaded) return;
+    startSyncProvider(getSyncProvider(syncBackend));
+    return () => {
+      stopSyncProvider();
+    };
+  }, [dataLoaded, syncBackend, syncServerUrl, syncRoom, syncToken, anonymousSync]);
 };
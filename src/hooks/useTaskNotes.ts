@@ -1,20 +1,26 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
-  getTaskNotes,
-  setTaskNotes,
+  getTaskNote,
+  setTaskNote,
+  deleteTaskNote,
   subscribeToTaskNotes,
   taskNotesMap,
 } from '../sync/yjsProvider';
+import { reassignTaskNote } from '../sync/taskNotes';
+import type { TaskNote } from '../models';
 
 interface UseTaskNotesReturn {
-  notes: Map<string, string>;
-  getNotesForTask: (taskContent: string) => string | undefined;
-  saveNotes: (taskContent: string, notes: string) => void;
-  hasNotes: (taskContent: string) => boolean;
+  notes: Map<string, TaskNote>;
+  getNote: (key: string) => TaskNote | undefined;
+  saveNotes: (key: string, title: string, notes: string) => void;
+  hasNotes: (key: string | null) => boolean;
+  deleteNote: (key: string) => void;
+  reassignNote: (fromKey: string, toKey: string, title: string) => void;
 }
 
+// Notes are keyed with taskNoteKey from sync/taskNotes
 export const useTaskNotes = (): UseTaskNotesReturn => {
-  const [notes, setNotes] = useState<Map<string, string>>(
+  const [notes, setNotes] = useState<Map<string, TaskNote>>(
     new Map(taskNotesMap.entries())
   );
 
@@ -23,23 +29,29 @@ export const useTaskNotes = (): UseTaskNotesReturn => {
     return unsubscribe;
   }, []);
 
-  const getNotesForTask = useCallback((taskContent: string): string | undefined => {
-    return getTaskNotes(taskContent);
+  const getNote = useCallback((key: string): TaskNote | undefined => {
+    return getTaskNote(key);
   }, []);
 
-  const saveNotes = useCallback((taskContent: string, notesText: string) => {
-    setTaskNotes(taskContent, notesText);
+  const saveNotes = useCallback((key: string, title: string, notesText: string) => {
+    setTaskNote(key, title, notesText);
   }, []);
 
-  const hasNotes = useCallback((taskContent: string): boolean => {
-    const existing = notes.get(taskContent);
-    return !!existing && existing.trim().length > 0;
+  const hasNotes = useCallback((key: string | null): boolean => {
+    const existing = key ? notes.get(key) : undefined;
+    return !!existing && existing.notes.trim().length > 0;
   }, [notes]);
 
+  const deleteNote = useCallback((key: string) => {
+    deleteTaskNote(key);
+  }, []);
+
   return {
     notes,
-    getNotesForTask,
+    getNote,
     saveNotes,
     hasNotes,
+    deleteNote,
+    reassignNote: reassignTaskNote,
   };
 };
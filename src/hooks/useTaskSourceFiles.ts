@@ -0,0 +1,48 @@
+import { useCallback } from 'react';
+import { open } from '@tauri-apps/plugin-dialog';
+import { invoke } from '@tauri-apps/api/core';
+import { useSettingsStore } from '../store/settingsStore';
+
+export type TaskSourceFile = 'markdown' | 'taskwarrior';
+
+const FILE_FILTERS: Record<TaskSourceFile, { name: string; extensions: string[] }> = {
+  markdown: { name: 'Markdown', extensions: ['md', 'markdown', 'txt'] },
+  taskwarrior: { name: 'Taskwarrior export', extensions: ['json'] },
+};
+
+interface UseTaskSourceFilesReturn {
+  paths: Record<TaskSourceFile, string>;
+  setPath: (kind: TaskSourceFile, path: string) => void;
+  chooseFile: (kind: TaskSourceFile) => Promise<string | null>;
+}
+
+// Files behind the Markdown and Taskwarrior task sources
+export const useTaskSourceFiles = (): UseTaskSourceFilesReturn => {
+  const markdown = useSettingsStore((s) => s.markdownTasksPath);
+  const taskwarrior = useSettingsStore((s) => s.taskwarriorExportPath);
+  const setMarkdownTasksPath = useSettingsStore((s) => s.setMarkdownTasksPath);
+  const setTaskwarriorExportPath = useSettingsStore((s) => s.setTaskwarriorExportPath);
+
+  const setPath = useCallback((kind: TaskSourceFile, path: string) => {
+    if (kind === 'markdown') {
+      setMarkdownTasksPath(path);
+    } else {
+      setTaskwarriorExportPath(path);
+    }
+  }, [setMarkdownTasksPath, setTaskwarriorExportPath]);
+
+  const chooseFile = useCallback(async (kind: TaskSourceFile): Promise<string | null> => {
+    try {
+      const selected = await open({ title: `Choose a ${FILE_FILTERS[kind].name} file`, filters: [FILE_FILTERS[kind]] });
+      if (typeof selected !== 'string') return null;
+      // The dialog only grants the file; watching and atomic rewrites need its folder
+      await invoke('allow_task_file_dir', { path: selected });
+      return selected;
+    } catch (error) {
+      console.warn('[TaskSources] File picker failed:', error);
+      return null;
+    }
+  }, []);
+
+  return { paths: { markdown, taskwarrior }, setPath, chooseFile };
+};
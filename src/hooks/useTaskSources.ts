@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { TASK_PROVIDERS, getTaskProvider } from '../tasks/providers';
+import type { PickableTask } from '../tasks/taskProvider';
+import type { TaskRef, TaskSource } from '../models';
+import { useSettingsStore } from '../store/settingsStore';
+import { showToast } from '../store/toastStore';
+
+interface UseTaskSourcesReturn {
+  tasks: PickableTask[]; // every enabled source, in provider order
+  loading: boolean; // until each enabled source has been read once
+  search: (query: string) => Promise<PickableTask[]>;
+  getTask: (ref: TaskRef | null) => PickableTask | null;
+  recordTime: (ref: TaskRef, minutes: number, blockId: string) => void;
+  complete: (ref: TaskRef) => Promise<boolean>;
+}
+
+export const useTaskSources = (): UseTaskSourcesReturn => {
+  const [bySource, setBySource] = useState<Partial<Record<TaskSource, PickableTask[]>>>({});
+  // Which sources are on depends on these paths
+  const markdownTasksPath = useSettingsStore((s) => s.markdownTasksPath);
+  const taskwarriorExportPath = useSettingsStore((s) => s.taskwarriorExportPath);
+
+  const providers = useMemo(
+    () => TASK_PROVIDERS.filter((provider) => provider.isEnabled()),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [markdownTasksPath, taskwarriorExportPath]
+  );
+
+  useEffect(() => {
+    setBySource({});
+    const unsubscribes = providers.map((provider) => {
+      let active = true;
+      const load = async () => {
+        const tasks = await provider.list();
+        if (active) setBySource((prev) => ({ ...prev, [provider.source]: tasks }));
+      };
+      const unsubscribe = provider.subscribe(load);
+      load();
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    });
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [providers]);
+
+  const tasks = useMemo(
+    () => providers.flatMap((provider) => bySource[provider.source] ?? []),
+    [providers, bySource]
+  );
+  const loading = providers.some((provider) => !bySource[provider.source]);
+
+  const search = useCallback(async (query: string) => {
+    const results = await Promise.all(providers.map((provider) => provider.search(query)));
+    return results.flat();
+  }, [providers]);
+
+  const getTask = useCallback(
+    (ref: TaskRef | null) =>
+      ref ? tasks.find((task) => task.source === ref.source && task.id === ref.id) ?? null : null,
+    [tasks]
+  );
+
+  const recordTime = useCallback((ref: TaskRef, minutes: number, blockId: string) => {
+    getTaskProvider(ref.source).recordTime(ref.id, minutes, blockId).catch((error) => {
+      console.warn(`[TaskSources] Failed to record time on ${ref.source} task:`, error);
+    });
+  }, []);
+
+  const complete = useCallback(async (ref: TaskRef) => {
+    const result = await getTaskProvider(ref.source).complete(ref.id);
+    if (!result.success) {
+      showToast.error(`Couldn't complete task: ${result.error}`);
+    }
+    return result.success;
+  }, []);
+
+  return { tasks, loading, search, getTask, recordTime, complete };
+};
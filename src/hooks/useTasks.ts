@@ -5,6 +5,7 @@ import {
   addTask,
   updateTask,
   deleteTask,
+  ydoc,
   getTasks,
   subscribeToTasks,
   tasksMap,
@@ -16,6 +17,7 @@ interface UseTasksReturn {
   createTask: (title: string) => Task;
   updateTaskTitle: (id: string, title: string) => void;
   updateTaskNotes: (id: string, notes: string) => void;
+  setTaskEstimate: (id: string, estimatedBlocks: number | undefined) => void;
   completeTask: (id: string) => void;
   uncompleteTask: (id: string) => void;
   removeTask: (id: string) => void;
@@ -23,12 +25,14 @@ interface UseTasksReturn {
   updateSubtask: (taskId: string, subtaskId: string, updates: Partial<Subtask>) => void;
   removeSubtask: (taskId: string, subtaskId: string) => void;
   toggleSubtask: (taskId: string, subtaskId: string) => void;
+  moveTask: (id: string, direction: -1 | 1) => void;
+  moveSubtask: (taskId: string, subtaskId: string, direction: -1 | 1) => void;
   incrementBlocksSpent: (taskId: string) => void;
   getTask: (id: string) => Task | undefined;
 }
 
 export const useTasks = (): UseTasksReturn => {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasks, setTasks] = useState<Task[]>(getTasks);
 
   useEffect(() => {
     setTasks(getTasks());
@@ -60,12 +64,16 @@ export const useTasks = (): UseTasksReturn => {
     updateTask(id, { notes });
   }, []);
 
+  const setTaskEstimate = useCallback((id: string, estimatedBlocks: number | undefined) => {
+    updateTask(id, { estimatedBlocks });
+  }, []);
+
   const completeTask = useCallback((id: string) => {
-    updateTask(id, { completed: true });
+    updateTask(id, { completed: true, completedAt: Date.now() });
   }, []);
 
   const uncompleteTask = useCallback((id: string) => {
-    updateTask(id, { completed: false });
+    updateTask(id, { completed: false, completedAt: undefined });
   }, []);
 
   const removeTask = useCallback((id: string) => {
@@ -119,6 +127,32 @@ export const useTasks = (): UseTasksReturn => {
     }
   }, [updateSubtask]);
 
+  // Swap places with the neighbouring task in list order
+  const moveTask = useCallback((id: string, direction: -1 | 1) => {
+    const ordered = getTasks();
+    const index = ordered.findIndex((t) => t.id === id);
+    const neighbour = ordered[index + direction];
+    if (index === -1 || !neighbour) return;
+    const task = ordered[index];
+    const taskOrder = task.order ?? task.createdAt;
+    const neighbourOrder = neighbour.order ?? neighbour.createdAt;
+    ydoc.transact(() => {
+      updateTask(task.id, { order: neighbourOrder });
+      updateTask(neighbour.id, { order: taskOrder });
+    });
+  }, []);
+
+  const moveSubtask = useCallback((taskId: string, subtaskId: string, direction: -1 | 1) => {
+    const task = tasksMap.get(taskId);
+    if (!task) return;
+    const index = task.subtasks.findIndex((st) => st.id === subtaskId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= task.subtasks.length) return;
+    const subtasks = [...task.subtasks];
+    [subtasks[index], subtasks[target]] = [subtasks[target], subtasks[index]];
+    updateTask(taskId, { subtasks });
+  }, []);
+
   const incrementBlocksSpent = useCallback((taskId: string) => {
     const task = tasksMap.get(taskId);
     if (task) {
@@ -137,6 +171,7 @@ export const useTasks = (): UseTasksReturn => {
     createTask,
     updateTaskTitle,
     updateTaskNotes,
+    setTaskEstimate,
     completeTask,
     uncompleteTask,
     removeTask,
@@ -144,6 +179,8 @@ export const useTasks = (): UseTasksReturn => {
     updateSubtask,
     removeSubtask,
     toggleSubtask,
+    moveTask,
+    moveSubtask,
     incrementBlocksSpent,
     getTask,
   };
@@ -1,15 +1,22 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import type { TimerState } from '../models';
+import type { TimerState, TimerSnapshot } from '../models';
 
 interface UseTimerOptions {
-  duration: number; // in seconds
-  onComplete?: () => void;
+  duration: number; // in seconds (the target when counting up)
+  countUp?: boolean; // open-ended: runs past duration until finish() is called
+  overtime?: boolean; // completes at duration, then keeps counting until finish() is called
+  onComplete?: (elapsed: number) => void;
+  onOvertimeEnd?: (overtime: number) => void;
   onTick?: (remaining: number) => void;
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
 interface UseTimerReturn {
   remaining: number;
   elapsed: number;
+  overtime: number; // seconds past duration
+  isOvertime: boolean;
   progress: number; // 0 to 1
   state: TimerState;
   start: () => void;
@@ -17,17 +24,28 @@ interface UseTimerReturn {
   resume: () => void;
   reset: () => void;
   toggle: () => void;
+  finish: () => void;
+  restore: (snapshot: TimerSnapshot) => void;
+  getSnapshot: () => TimerSnapshot | null;
 }
 
 export const useTimer = ({
   duration,
+  countUp = false,
+  overtime: overtimeEnabled = false,
   onComplete,
+  onOvertimeEnd,
   onTick,
+  onPause,
+  onResume,
 }: UseTimerOptions): UseTimerReturn => {
-  const [remaining, setRemaining] = useState(duration);
+  const [elapsed, setElapsed] = useState(0);
   const [state, setState] = useState<TimerState>('idle');
+  const [isOvertime, setIsOvertime] = useState(false);
+  const overtimeRef = useRef(false); // read by the interval, which may tick before a re-render
   const intervalRef = useRef<number | null>(null);
   const startTimeRef = useRef<number | null>(null);
+  const pausedMsRef = useRef(0);
   const pausedAtRef = useRef<number | null>(null);
 
   const clearTimer = useCallback(() => {
@@ -37,33 +55,88 @@ export const useTimer = ({
     }
   }, []);
 
+  // Seconds of running time, measured against the wall clock so the
+  // timer survives throttled intervals and app restarts
+  const getElapsedSeconds = useCallback((now: number): number => {
+    if (!startTimeRef.current) return 0;
+    const pausedNow = pausedAtRef.current ? now - pausedAtRef.current : 0;
+    return Math.floor((now - startTimeRef.current - pausedMsRef.current - pausedNow) / 1000);
+  }, []);
+
   const start = useCallback(() => {
     if (state !== 'idle') return;
     startTimeRef.current = Date.now();
+    pausedMsRef.current = 0;
     pausedAtRef.current = null;
+    setElapsed(0);
+    overtimeRef.current = false;
+    setIsOvertime(false);
     setState('running');
   }, [state]);
 
   const pause = useCallback(() => {
     if (state !== 'running') return;
-    pausedAtRef.current = remaining;
+    pausedAtRef.current = Date.now();
     clearTimer();
     setState('paused');
-  }, [state, remaining, clearTimer]);
+    onPause?.();
+  }, [state, clearTimer, onPause]);
 
   const resume = useCallback(() => {
     if (state !== 'paused') return;
-    startTimeRef.current = Date.now() - (duration - (pausedAtRef.current || duration)) * 1000;
+    if (pausedAtRef.current) {
+      pausedMsRef.current += Date.now() - pausedAtRef.current;
+      pausedAtRef.current = null;
+    }
     setState('running');
-  }, [state, duration]);
+    onResume?.();
+  }, [state, onResume]);
 
   const reset = useCallback(() => {
     clearTimer();
-    setRemaining(duration);
+    setElapsed(0);
+    overtimeRef.current = false;
+    setIsOvertime(false);
     setState('idle');
     startTimeRef.current = null;
+    pausedMsRef.current = 0;
     pausedAtRef.current = null;
-  }, [duration, clearTimer]);
+  }, [clearTimer]);
+
+  // End the timer now - how an open-ended (count-up) timer is stopped
+  const finish = useCallback(() => {
+    if (state !== 'running' && state !== 'paused') return;
+    clearTimer();
+    const finalElapsed = getElapsedSeconds(Date.now());
+    setElapsed(finalElapsed);
+    setState('completed');
+    // In overtime the block already completed at duration; only the extra time is new
+    if (isOvertime) {
+      onOvertimeEnd?.(Math.max(0, finalElapsed - duration));
+    } else {
+      onComplete?.(finalElapsed);
+    }
+  }, [state, isOvertime, duration, clearTimer, getElapsedSeconds, onComplete, onOvertimeEnd]);
+
+  const restore = useCallback((snapshot: TimerSnapshot) => {
+    clearTimer();
+    startTimeRef.current = snapshot.startedAt;
+    pausedMsRef.current = snapshot.pausedMs;
+    pausedAtRef.current = snapshot.pausedAt;
+    overtimeRef.current = false;
+    setIsOvertime(false);
+    setElapsed(getElapsedSeconds(Date.now()));
+    setState(snapshot.pausedAt ? 'paused' : 'running');
+  }, [clearTimer, getElapsedSeconds]);
+
+  const getSnapshot = useCallback((): TimerSnapshot | null => {
+    if (!startTimeRef.current) return null;
+    return {
+      startedAt: startTimeRef.current,
+      pausedMs: pausedMsRef.current,
+      pausedAt: pausedAtRef.current,
+    };
+  }, []);
 
   const toggle = useCallback(() => {
     if (state === 'idle') {
@@ -80,36 +153,39 @@ export const useTimer = ({
       intervalRef.current = window.setInterval(() => {
         if (!startTimeRef.current) return;
 
-        const elapsed = Math.floor((Date.now() - startTimeRef.current) / 1000);
-        const newRemaining = Math.max(0, duration - elapsed);
+        const newElapsed = getElapsedSeconds(Date.now());
+        const newRemaining = Math.max(0, duration - newElapsed);
 
-        setRemaining(newRemaining);
+        const openEnded = countUp || overtimeEnabled;
+        setElapsed(openEnded ? newElapsed : Math.min(newElapsed, duration));
         onTick?.(newRemaining);
 
-        if (newRemaining <= 0) {
-          clearTimer();
-          setState('completed');
-          onComplete?.();
+        if (!countUp && !overtimeRef.current && newRemaining <= 0) {
+          if (overtimeEnabled) {
+            // Complete the block but leave the clock running
+            overtimeRef.current = true;
+            setIsOvertime(true);
+          } else {
+            clearTimer();
+            setState('completed');
+          }
+          onComplete?.(duration);
         }
       }, 100); // Update every 100ms for smooth display
     }
 
     return clearTimer;
-  }, [state, duration, onComplete, onTick, clearTimer]);
-
-  // Reset timer when duration changes
-  useEffect(() => {
-    if (state === 'idle') {
-      setRemaining(duration);
-    }
-  }, [duration, state]);
+  }, [state, duration, countUp, overtimeEnabled, onComplete, onTick, clearTimer, getElapsedSeconds]);
 
-  const elapsed = duration - remaining;
-  const progress = duration > 0 ? elapsed / duration : 0;
+  const remaining = Math.max(0, duration - elapsed);
+  const overtime = isOvertime ? Math.max(0, elapsed - duration) : 0;
+  const progress = duration > 0 ? Math.min(1, elapsed / duration) : 0;
 
   return {
     remaining,
     elapsed,
+    overtime,
+    isOvertime,
     progress,
     state,
     start,
@@ -117,6 +193,9 @@ export const useTimer = ({
     resume,
     reset,
     toggle,
+    finish,
+    restore,
+    getSnapshot,
   };
 };
 
@@ -6,15 +6,31 @@ export interface BlockMeta {
   celebrated: boolean;
 }
 
+export type InterruptionReason = 'internal' | 'external' | 'phone' | 'person';
+
+export interface BlockEvent {
+  type: 'pause' | 'resume' | 'interrupt';
+  at: number;
+  reason?: InterruptionReason; // interrupt only
+}
+
+// countdown: fixed length from settings; flowtime: counts up until stopped
+export type BlockMode = 'countdown' | 'flowtime';
+
 export interface Block {
   id: string;
-  date: string; // YYYY-MM-DD
+  date: string; // YYYY-MM-DD when created; read the day with getBlockDay
   startedAt: number;
   completedAt?: number;
-  taskId?: string;
+  taskId?: string; // `source:id` of the picked task; a bare id is a Sanjou task (older blocks)
+  taskText?: string; // the task as written in the block, picked or typed
   meta: BlockMeta;
   isValid: boolean;
   notes?: string;
+  events?: BlockEvent[]; // pause/resume/interrupt log, oldest first
+  mode?: BlockMode; // missing on blocks recorded before flowtime existed
+  duration?: number; // actual focused minutes, set on completion
+  overtime?: number; // minutes kept working after the block completed
 }
 
 export interface Subtask {
@@ -31,7 +47,17 @@ export interface Task {
   createdAt: number;
   modifiedAt: number;
   blocksSpent: number;
+  estimatedBlocks?: number; // how many blocks the task should take
+  completedAt?: number; // set on completion; older completed tasks lack it
   notes?: string;
+  order?: number; // position in the task list; tasks without one sort by createdAt
+}
+
+// Notes on one task; see sync/taskNotes.ts for how they're keyed
+export interface TaskNote {
+  notes: string;
+  title: string; // the task's title when last saved, so orphaned notes stay recognisable
+  modifiedAt: number;
 }
 
 export interface RightNowItem {
@@ -47,26 +73,86 @@ export interface RightNowList {
   createdAt: number;
 }
 
+export type BreakKind = 'short' | 'long';
+
 export interface Break {
   id: string;
   startedAt: number;
   endedAt?: number;
   duration: number; // planned duration in minutes
+  kind?: BreakKind; // missing on breaks recorded before cycles were tracked
   notes?: string;
 }
 
+// A program is an ordered, repeating sequence of work and break segments
+export type SegmentKind = 'work' | BreakKind;
+
+export interface IntervalSegment {
+  kind: SegmentKind;
+  minutes: number;
+}
+
+export interface IntervalProgram {
+  id: string;
+  name: string;
+  segments: IntervalSegment[];
+  createdAt: number;
+  modifiedAt: number;
+}
+
 export type TimerState = 'idle' | 'running' | 'paused' | 'completed';
 
+// Wall-clock timer position, enough to rebuild a timer after a restart
+export interface TimerSnapshot {
+  startedAt: number;
+  pausedMs: number; // total time spent paused, excluding the current pause
+  pausedAt: number | null; // set while paused
+}
+
+// In-flight block persisted across app restarts
+export interface ActiveBlockSession extends TimerSnapshot {
+  blockId: string;
+  mode: BlockMode;
+  duration: number; // planned duration in minutes
+  taskText: string;
+  task?: TaskRef | null; // the picked task, if any
+  subeteTaskId?: string | null; // sessions saved before task sources
+  rightNowText: string;
+}
+
 export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
 
+// Where a pickable task comes from (see tasks/providers.ts)
+export type TaskSource = 'sanjou' | 'subete' | 'markdown' | 'taskwarrior';
+
+export interface TaskRef {
+  source: TaskSource;
+  id: string; // the source's own id
+}
+
+// Where the Yjs doc is synced to; firebase needs the VITE_FIREBASE_* env vars
+export type SyncBackend = 'firebase' | 'websocket';
+
 export interface Settings {
   blockDuration: number; // in minutes, default 25
   breakDuration: number; // in minutes, default 5
   longBreakDuration: number; // in minutes, default 15
   blocksUntilLongBreak: number; // default 4
+  cycleResetMinutes: number; // idle gap that restarts the long-break cycle, default 60
+  blockMode: BlockMode;
+  flowtimeBreakRatio: number; // break length as a fraction of flowtime work, default 0.2
+  overtimeEnabled: boolean; // keep counting past the end of a countdown block
+  activeProgramId: string | null; // null: plain block/break/long break settings
   soundEnabled: boolean;
   notificationsEnabled: boolean;
   theme: 'dark' | 'light' | 'system';
+  dayStartHour: number; // local hour a new day begins, default 0 (midnight)
+}
+
+// One setting as stored in the synced doc; the newer write wins a conflict
+export interface SyncedSetting {
+  value: unknown;
+  updatedAt: number;
 }
 
 export const DEFAULT_SETTINGS: Settings = {
@@ -74,9 +160,15 @@ export const DEFAULT_SETTINGS: Settings = {
   breakDuration: 5,
   longBreakDuration: 15,
   blocksUntilLongBreak: 4,
+  cycleResetMinutes: 60,
+  blockMode: 'countdown',
+  flowtimeBreakRatio: 0.2,
+  overtimeEnabled: false,
+  activeProgramId: null,
   soundEnabled: true,
   notificationsEnabled: true,
   theme: 'system',
+  dayStartHour: 0,
 };
 
 export const createEmptyMeta = (): BlockMeta => ({
@@ -90,7 +182,3 @@ export const createEmptyMeta = (): BlockMeta => ({
 export const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
-
-export const getToday = (): string => {
-  return new Date().toISOString().split('T')[0];
-};
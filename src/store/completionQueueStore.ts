@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { indexedDbStorage } from './indexedDbStorage';
+import type { TaskCompletion } from '../sync/completionSync';
+
+// A completion waiting to be written to the shared completions.json
+export interface QueuedCompletion extends TaskCompletion {
+  id: string;
+  retryCount: number;
+  queuedAt: number;
+  lastError?: string;
+}
+
+interface CompletionQueueState {
+  pending: QueuedCompletion[];
+  // Out of retries; kept until the user retries or discards them
+  deadLetters: QueuedCompletion[];
+
+  enqueue: (completion: QueuedCompletion) => void;
+  removePending: (ids: string[]) => void;
+  // Count a failed attempt; items past maxRetries move to deadLetters
+  markFailed: (ids: string[], error: string, maxRetries: number) => QueuedCompletion[];
+  retryDeadLetter: (id: string) => void;
+  retryAllDeadLetters: () => void;
+  discardDeadLetter: (id: string) => void;
+}
+
+export const useCompletionQueueStore = create<CompletionQueueState>()(
+  persist(
+    (set, get) => ({
+      pending: [],
+      deadLetters: [],
+
+      enqueue: (completion) => set((state) => ({ pending: [...state.pending, completion] })),
+
+      removePending: (ids) =>
+        set((state) => ({ pending: state.pending.filter((item) => !ids.includes(item.id)) })),
+
+      markFailed: (ids, error, maxRetries) => {
+        const pending: QueuedCompletion[] = [];
+        const exhausted: QueuedCompletion[] = [];
+        get().pending.forEach((item) => {
+          if (!ids.includes(item.id)) {
+            pending.push(item);
+            return;
+          }
+          const failed = { ...item, retryCount: item.retryCount + 1, lastError: error };
+          (failed.retryCount > maxRetries ? exhausted : pending).push(failed);
+        });
+        set((state) => ({ pending, deadLetters: [...state.deadLetters, ...exhausted] }));
+        return exhausted;
+      },
+
+      retryDeadLetter: (id) =>
+        set((state) => {
+          const item = state.deadLetters.find((d) => d.id === id);
+          if (!item) return state;
+          return {
+            deadLetters: state.deadLetters.filter((d) => d.id !== id),
+            pending: [...state.pending, { ...item, retryCount: 0 }],
+          };
+        }),
+
+      retryAllDeadLetters: () =>
+        set((state) => ({
+          deadLetters: [],
+          pending: [...state.pending, ...state.deadLetters.map((item) => ({ ...item, retryCount: 0 }))],
+        })),
+
+      discardDeadLetter: (id) =>
+        set((state) => ({ deadLetters: state.deadLetters.filter((d) => d.id !== id) })),
+    }),
+    {
+      name: 'sanjou-completion-queue',
+      storage: createJSONStorage(() => indexedDbStorage),
+      partialize: (state) => ({ pending: state.pending, deadLetters: state.deadLetters }),
+    }
+  )
+);
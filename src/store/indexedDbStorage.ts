@@ -0,0 +1,58 @@
+import type { StateStorage } from 'zustand/middleware';
+
+/**
+ * IndexedDB-backed storage for persisted stores
+ *
+ * For state that must survive a crash: a write only resolves once its
+ * transaction has committed, unlike localStorage writes the webview may
+ * still be buffering when the app quits.
+ */
+
+const DB_NAME = 'sanjou-stores';
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const indexedDbStorage: StateStorage = {
+  getItem: async (name) => {
+    const value = await runRequest<string | undefined>('readonly', (store) => store.get(name));
+    return value ?? null;
+  },
+  setItem: async (name, value) => {
+    await runRequest('readwrite', (store) => store.put(value, name));
+  },
+  removeItem: async (name) => {
+    await runRequest('readwrite', (store) => store.delete(name));
+  },
+};
@@ -1,15 +1,44 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import { Settings, DEFAULT_SETTINGS } from '../models';
+import { Settings, DEFAULT_SETTINGS, BlockMode, SyncBackend } from '../models';
 
 interface SettingsState extends Settings {
+  // Settings kept on this device instead of syncing through the doc
+  deviceLocalKeys: (keyof Settings)[];
+  setDeviceLocal: (key: keyof Settings, local: boolean) => void;
+
+  // Sync server connection - always device-local, it decides where the doc syncs to
+  syncBackend: SyncBackend;
+  syncServerUrl: string; // ws:// or wss:// URL of a y-websocket compatible server
+  syncRoom: string;
+  syncToken: string;
+  setSyncServer: (server: Pick<SettingsState, 'syncBackend' | 'syncServerUrl' | 'syncRoom' | 'syncToken'>) => void;
+  anonymousSync: boolean; // signed out: back up to a private anonymous-auth doc instead of staying local
+  setAnonymousSync: (enabled: boolean) => void;
+
+  // Directory shared with Subete; empty resolves it per platform (see sync/sharedDir.ts)
+  subeteSharedDir: string;
+  setSubeteSharedDir: (path: string) => void;
+
+  // Extra task sources for the picker; empty turns the source off (see tasks/providers.ts)
+  markdownTasksPath: string;
+  taskwarriorExportPath: string;
+  setMarkdownTasksPath: (path: string) => void;
+  setTaskwarriorExportPath: (path: string) => void;
+
   setBlockDuration: (duration: number) => void;
   setBreakDuration: (duration: number) => void;
   setLongBreakDuration: (duration: number) => void;
   setBlocksUntilLongBreak: (count: number) => void;
+  setCycleResetMinutes: (minutes: number) => void;
+  setBlockMode: (mode: BlockMode) => void;
+  setFlowtimeBreakRatio: (ratio: number) => void;
+  setOvertimeEnabled: (enabled: boolean) => void;
+  setActiveProgramId: (id: string | null) => void;
   setSoundEnabled: (enabled: boolean) => void;
   setNotificationsEnabled: (enabled: boolean) => void;
   setTheme: (theme: 'dark' | 'light' | 'system') => void;
+  setDayStartHour: (hour: number) => void;
   resetToDefaults: () => void;
 }
 
@@ -17,14 +46,42 @@ export const useSettingsStore = create<SettingsState>()(
   persist(
     (set) => ({
       ...DEFAULT_SETTINGS,
+      deviceLocalKeys: [],
+      syncBackend: 'firebase',
+      syncServerUrl: '',
+      syncRoom: 'sanjou',
+      syncToken: '',
+      anonymousSync: false,
+      subeteSharedDir: '',
+      markdownTasksPath: '',
+      taskwarriorExportPath: '',
+
+      setDeviceLocal: (key, local) =>
+        set((state) => ({
+          deviceLocalKeys: local
+            ? [...state.deviceLocalKeys.filter((k) => k !== key), key]
+            : state.deviceLocalKeys.filter((k) => k !== key),
+        })),
+
+      setSyncServer: (server) => set(server),
+      setAnonymousSync: (enabled) => set({ anonymousSync: enabled }),
+      setSubeteSharedDir: (path) => set({ subeteSharedDir: path }),
+      setMarkdownTasksPath: (path) => set({ markdownTasksPath: path }),
+      setTaskwarriorExportPath: (path) => set({ taskwarriorExportPath: path }),
 
       setBlockDuration: (duration) => set({ blockDuration: duration }),
       setBreakDuration: (duration) => set({ breakDuration: duration }),
       setLongBreakDuration: (duration) => set({ longBreakDuration: duration }),
       setBlocksUntilLongBreak: (count) => set({ blocksUntilLongBreak: count }),
+      setCycleResetMinutes: (minutes) => set({ cycleResetMinutes: minutes }),
+      setBlockMode: (mode) => set({ blockMode: mode }),
+      setFlowtimeBreakRatio: (ratio) => set({ flowtimeBreakRatio: ratio }),
+      setOvertimeEnabled: (enabled) => set({ overtimeEnabled: enabled }),
+      setActiveProgramId: (id) => set({ activeProgramId: id }),
       setSoundEnabled: (enabled) => set({ soundEnabled: enabled }),
       setNotificationsEnabled: (enabled) => set({ notificationsEnabled: enabled }),
       setTheme: (theme) => set({ theme }),
+      setDayStartHour: (hour) => set({ dayStartHour: hour }),
       resetToDefaults: () => set(DEFAULT_SETTINGS),
     }),
     {
@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { validateTask, SkippedRow } from '../sync/sharedFormat';
+import type { SubeteCommand } from '../sync/subeteCommands';
+
+// Shared task structure from Subete
+export interface SubeteTask {
+  id: string;
+  content: string;
+  status: string;
+  value: number;
+  time: number;
+  tags?: string[];
+}
+
+// Sync status for UI indicators
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
+
+const CACHE_KEY = 'sanjou-subete-tasks-cache';
+
+/**
+ * Load cached tasks from localStorage
+ */
+function loadCachedTasks(): SubeteTask[] {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    if (cached) {
+      const parsed: unknown = JSON.parse(cached);
+      // Cached by older builds without validation
+      if (Array.isArray(parsed)) {
+        return parsed.map(validateTask).filter((task): task is SubeteTask => typeof task !== 'string');
+      }
+    }
+  } catch (error) {
+    console.warn('[SubeteTasks] Failed to load cached tasks:', error);
+  }
+  return [];
+}
+
+/**
+ * Save tasks to localStorage cache
+ */
+export function saveCachedTasks(tasks: SubeteTask[]): void {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(tasks));
+  } catch (error) {
+    console.warn('[SubeteTasks] Failed to cache tasks:', error);
+  }
+}
+
+// One copy of tasks.json for every consumer; filled by sync/subeteTaskSource
+interface SubeteTasksState {
+  tasks: SubeteTask[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: SyncStatus;
+  // From the last successful read: format version (null if no file) and bad rows
+  fileVersion: number | null;
+  skippedRows: SkippedRow[];
+  // Sent to Subete and not acknowledged yet
+  pendingCommands: SubeteCommand[];
+
+  setTasks: (tasks: SubeteTask[]) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  setSyncStatus: (status: SyncStatus) => void;
+  setFileReport: (version: number | null, skippedRows: SkippedRow[]) => void;
+  setPendingCommands: (commands: SubeteCommand[]) => void;
+}
+
+export const useSubeteTasksStore = create<SubeteTasksState>()((set) => ({
+  tasks: loadCachedTasks(),
+  loading: true,
+  error: null,
+  syncStatus: 'syncing',
+  fileVersion: null,
+  skippedRows: [],
+  pendingCommands: [],
+
+  setTasks: (tasks) => set({ tasks }),
+  setLoading: (loading) => set({ loading }),
+  setError: (error) => set({ error }),
+  setSyncStatus: (syncStatus) => set({ syncStatus }),
+  setFileReport: (fileVersion, skippedRows) => set({ fileVersion, skippedRows }),
+  setPendingCommands: (pendingCommands) => set({ pendingCommands }),
+}));
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { TimerState, BlockMeta, SyncState } from '../models';
+import type { TimerState, BlockMeta, SyncState, ActiveBlockSession } from '../models';
 
 type View = 'block' | 'tasks' | 'history' | 'settings' | 'stats';
 
@@ -19,6 +19,14 @@ interface UIState {
   timerState: TimerState;
   setTimerState: (state: TimerState) => void;
 
+  // In-flight block, persisted so it can be resumed after a restart
+  activeSession: ActiveBlockSession | null;
+  setActiveSession: (session: ActiveBlockSession | null) => void;
+
+  // Position in the active interval program (index of the next segment)
+  programStep: number;
+  setProgramStep: (step: number) => void;
+
   // Meta checklist (current, pre-block)
   currentMeta: BlockMeta;
   setMetaItem: (key: keyof BlockMeta, value: boolean) => void;
@@ -72,6 +80,14 @@ export const useUIStore = create<UIState>()(
       timerState: 'idle',
       setTimerState: (state) => set({ timerState: state }),
 
+      // Active session
+      activeSession: null,
+      setActiveSession: (session) => set({ activeSession: session }),
+
+      // Interval program
+      programStep: 0,
+      setProgramStep: (step) => set({ programStep: step }),
+
       // Meta checklist
       currentMeta: { ...emptyMeta },
       setMetaItem: (key, value) =>
@@ -108,6 +124,8 @@ export const useUIStore = create<UIState>()(
       partialize: (state) => ({
         currentView: state.currentView,
         selectedTaskId: state.selectedTaskId,
+        activeSession: state.activeSession,
+        programStep: state.programStep,
       }),
     }
   )
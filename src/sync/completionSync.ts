@@ -1,15 +1,32 @@
 /**
  * Completion Sync - Write Pomodoro/block completions to shared file for Subete
- * Location: ~/Library/Application Support/subete-sanjou-shared/completions.json
+ * Location: completions.json in the shared directory (see sharedDir.ts)
  *
  * Offline-first design:
- * - Queue writes if file is temporarily unavailable
- * - Retry with exponential backoff
+ * - Queue writes in IndexedDB so they survive quitting the app
+ * - Retry with exponential backoff, replaying the queue on startup
+ * - Completions out of retries go to a dead-letter list, never dropped
+ * - Read-modify-write happens under a lock file shared with Subete, and the
+ *   file is replaced atomically (see safeFile.ts)
+ * - Rows this version can't read are carried over untouched (see sharedFormat.ts)
  * - Never block the UI
  */
 
-import { mkdir, writeTextFile, readTextFile, exists } from '@tauri-apps/plugin-fs';
-import { homeDir } from '@tauri-apps/api/path';
+import { readTextFile, exists } from '@tauri-apps/plugin-fs';
+import { ensureSharedDir, getSharedFilePath, COMPLETIONS_FILE_NAME } from './sharedDir';
+import { withFileLock, writeTextFileAtomic, backupCorruptFile } from './safeFile';
+import {
+  SharedFile,
+  parseSharedFile,
+  emptySharedFile,
+  isNewerVersion,
+  serializeSharedFile,
+  validateCompletion,
+  describeSkippedRow,
+} from './sharedFormat';
+import { useCompletionQueueStore, QueuedCompletion } from '../store/completionQueueStore';
+import { showToast } from '../store/toastStore';
+import { generateId } from '../models';
 
 // Completion record structure
 export interface TaskCompletion {
@@ -19,90 +36,61 @@ export interface TaskCompletion {
   blockId?: string;    // Optional Sanjou block ID for reference
 }
 
-// Queue item for pending writes
-interface QueuedCompletion extends TaskCompletion {
-  retryCount: number;
-  queuedAt: number;
-}
-
-const SHARED_DIR_NAME = 'subete-sanjou-shared';
-const COMPLETIONS_FILE_NAME = 'completions.json';
 const MAX_RETRIES = 5;
 const BASE_RETRY_DELAY_MS = 1000;
 const MAX_RETRY_DELAY_MS = 30000;
 
-// In-memory queue for pending writes
-let pendingQueue: QueuedCompletion[] = [];
 let isProcessingQueue = false;
 let retryTimeout: number | null = null;
 
-/**
- * Get the full path to the shared directory
- */
-async function getSharedDirPath(): Promise<string> {
-  const home = await homeDir();
-  return `${home}Library/Application Support/${SHARED_DIR_NAME}`;
-}
-
 /**
  * Get the full path to the completions file
  */
 async function getCompletionsFilePath(): Promise<string> {
-  const dirPath = await getSharedDirPath();
-  return `${dirPath}/${COMPLETIONS_FILE_NAME}`;
+  return getSharedFilePath(COMPLETIONS_FILE_NAME);
 }
 
 /**
- * Ensure the shared directory exists
- * Returns false if directory creation fails
+ * Read existing completions from the shared file
+ * Returns an empty file only if the file doesn't exist. A file that can't be
+ * parsed is backed up before starting over, so history is never overwritten;
+ * any other read error throws for retry handling.
  */
-async function ensureSharedDirExists(): Promise<boolean> {
-  try {
-    const dirPath = await getSharedDirPath();
-    const dirExists = await exists(dirPath);
-    if (!dirExists) {
-      await mkdir(dirPath, { recursive: true });
-    }
-    return true;
-  } catch (error) {
-    console.warn('[CompletionSync] Failed to ensure shared directory exists:', error);
-    return false;
+async function readExistingCompletions(filePath: string): Promise<SharedFile<TaskCompletion>> {
+  const fileExists = await exists(filePath);
+  if (!fileExists) {
+    return emptySharedFile();
   }
-}
 
-/**
- * Read existing completions from the shared file
- * Returns empty array if file doesn't exist or is unreadable
- */
-async function readExistingCompletions(): Promise<TaskCompletion[]> {
+  const content = await readTextFile(filePath);
+  let existing: SharedFile<TaskCompletion>;
   try {
-    const filePath = await getCompletionsFilePath();
-    const fileExists = await exists(filePath);
-    if (!fileExists) {
-      return [];
-    }
-    const content = await readTextFile(filePath);
-    const completions = JSON.parse(content) as TaskCompletion[];
-    return Array.isArray(completions) ? completions : [];
-  } catch (error) {
-    console.warn('[CompletionSync] Failed to read existing completions:', error);
-    return [];
+    existing = parseSharedFile(content, 'completions', validateCompletion);
+  } catch {
+    const backupPath = await backupCorruptFile(filePath);
+    console.error(`[CompletionSync] completions.json was unreadable, backed up to ${backupPath}`);
+    showToast.warning('completions.json was corrupt - a backup was kept next to it');
+    return emptySharedFile();
+  }
+
+  if (existing.skipped.length > 0) {
+    console.warn('[CompletionSync] Keeping completions this version cannot read:',
+      existing.skipped.map(describeSkippedRow));
   }
+  return existing;
 }
 
 /**
  * Write completions to the shared file
  * Throws on failure for retry handling
  */
-async function writeCompletionsToFile(completions: TaskCompletion[]): Promise<void> {
-  const dirReady = await ensureSharedDirExists();
-  if (!dirReady) {
-    throw new Error('Failed to create shared directory');
-  }
-
-  const filePath = await getCompletionsFilePath();
-  const json = JSON.stringify(completions, null, 2);
-  await writeTextFile(filePath, json);
+async function writeCompletionsToFile(
+  filePath: string,
+  completions: unknown[],
+  extra: Record<string, unknown>
+): Promise<void> {
+  const json = serializeSharedFile('completions', completions, extra);
+  await writeTextFileAtomic(filePath, json);
 }
 
 /**
@@ -122,82 +110,115 @@ function getRetryDelay(retryCount: number): number {
  * Runs asynchronously without blocking
  */
 async function processQueue(): Promise<void> {
-  if (isProcessingQueue || pendingQueue.length === 0) {
+  const queue = useCompletionQueueStore.getState();
+  if (isProcessingQueue || queue.pending.length === 0) {
     return;
   }
 
   isProcessingQueue = true;
+  // Items queued while this pass runs are left for the next one
+  const batch = queue.pending;
+  const batchIds = batch.map(item => item.id);
 
   try {
-    // Read existing completions
-    const existing = await readExistingCompletions();
+    const dirReady = await ensureSharedDir();
+    if (!dirReady) {
+      throw new Error('Failed to create shared directory');
+    }
+    const filePath = await getCompletionsFilePath();
 
-    // Merge with pending items (avoid duplicates by taskId + completedAt)
-    const existingKeys = new Set(
-      existing.map(c => `${c.taskId}-${c.completedAt}`)
-    );
+    // Read-modify-write under the lock so concurrent Subete writes aren't lost
+    await withFileLock(filePath, async () => {
+      const existing = await readExistingCompletions(filePath);
+      // Rewriting would downgrade a format we don't know; wait for an update
+      if (isNewerVersion(existing.version)) {
+        throw new Error(`completions.json is format v${existing.version}, newer than this version of Sanjou supports`);
+      }
 
-    const newCompletions: TaskCompletion[] = [];
-    const stillPending: QueuedCompletion[] = [];
+      // Merge with pending items (avoid duplicates by taskId + completedAt)
+      const existingKeys = new Set(
+        existing.rows.map(c => `${c.taskId}-${c.completedAt}`)
+      );
 
-    for (const queued of pendingQueue) {
-      const key = `${queued.taskId}-${queued.completedAt}`;
-      if (!existingKeys.has(key)) {
-        newCompletions.push({
+      const newCompletions: TaskCompletion[] = batch
+        .filter(queued => !existingKeys.has(`${queued.taskId}-${queued.completedAt}`))
+        .map(queued => ({
           taskId: queued.taskId,
           completedAt: queued.completedAt,
           duration: queued.duration,
           blockId: queued.blockId,
-        });
-      }
-    }
+        }));
 
-    if (newCompletions.length > 0) {
-      // Write all completions
-      await writeCompletionsToFile([...existing, ...newCompletions]);
-      console.log(`[CompletionSync] Successfully wrote ${newCompletions.length} completion(s)`);
-    }
-
-    // Clear the queue on success
-    pendingQueue = stillPending;
+      if (newCompletions.length > 0) {
+        // Write all completions
+        await writeCompletionsToFile(filePath, [...existing.rawRows, ...newCompletions], existing.extra);
+        console.log(`[CompletionSync] Successfully wrote ${newCompletions.length} completion(s)`);
+      }
+    });
 
+    // Only now is it safe to forget them
+    useCompletionQueueStore.getState().removePending(batchIds);
   } catch (error) {
     console.warn('[CompletionSync] Failed to process queue:', error);
 
-    // Move items back to queue with incremented retry count
-    const updatedQueue: QueuedCompletion[] = [];
-
-    for (const item of pendingQueue) {
-      if (item.retryCount < MAX_RETRIES) {
-        updatedQueue.push({
-          ...item,
-          retryCount: item.retryCount + 1,
-        });
-      } else {
-        console.error('[CompletionSync] Dropping completion after max retries:', item.taskId);
-      }
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = useCompletionQueueStore.getState().markFailed(batchIds, message, MAX_RETRIES);
+    if (exhausted.length > 0) {
+      console.error(`[CompletionSync] ${exhausted.length} completion(s) out of retries, moved to dead letters`);
+      showToast.warning(
+        `${exhausted.length} Subete completion${exhausted.length > 1 ? 's' : ''} could not be saved - see Sync Diagnostics`
+      );
     }
+  } finally {
+    isProcessingQueue = false;
+  }
 
-    pendingQueue = updatedQueue;
+  scheduleRetry();
+}
 
-    // Schedule retry if there are still items
-    if (pendingQueue.length > 0) {
-      const minRetryCount = Math.min(...pendingQueue.map(q => q.retryCount));
-      const delay = getRetryDelay(minRetryCount);
+/**
+ * Schedule the next pass while items remain, backing off by their retry count
+ */
+function scheduleRetry(): void {
+  const { pending } = useCompletionQueueStore.getState();
+  if (pending.length === 0) {
+    return;
+  }
 
-      if (retryTimeout !== null) {
-        clearTimeout(retryTimeout);
-      }
+  if (retryTimeout !== null) {
+    clearTimeout(retryTimeout);
+  }
+
+  const minRetryCount = Math.min(...pending.map(q => q.retryCount));
+  const delay = minRetryCount === 0 ? 0 : getRetryDelay(minRetryCount);
+
+  retryTimeout = window.setTimeout(() => {
+    retryTimeout = null;
+    processQueue();
+  }, delay);
 
-      retryTimeout = window.setTimeout(() => {
-        retryTimeout = null;
-        processQueue();
-      }, delay);
+  if (delay > 0) {
+    console.log(`[CompletionSync] Scheduling retry in ${Math.round(delay / 1000)}s`);
+  }
+}
 
-      console.log(`[CompletionSync] Scheduling retry in ${Math.round(delay / 1000)}s`);
+/**
+ * Replay completions queued before the last quit
+ * Waits for the persisted queue to load from IndexedDB
+ */
+export function initCompletionQueue(): void {
+  const replay = () => {
+    const count = getPendingCount();
+    if (count > 0) {
+      console.log(`[CompletionSync] Replaying ${count} queued completion(s)`);
+      processQueue();
     }
-  } finally {
-    isProcessingQueue = false;
+  };
+
+  if (useCompletionQueueStore.persist.hasHydrated()) {
+    replay();
+  } else {
+    useCompletionQueueStore.persist.onFinishHydration(replay);
   }
 }
 
@@ -215,6 +236,7 @@ export function recordCompletion(
   blockId?: string
 ): void {
   const completion: QueuedCompletion = {
+    id: generateId(),
     taskId,
     completedAt: new Date().toISOString(),
     duration,
@@ -223,7 +245,7 @@ export function recordCompletion(
     queuedAt: Date.now(),
   };
 
-  pendingQueue.push(completion);
+  useCompletionQueueStore.getState().enqueue(completion);
   console.log('[CompletionSync] Queued completion for task:', taskId);
 
   // Process queue asynchronously
@@ -235,7 +257,7 @@ export function recordCompletion(
  * Useful for UI indicators
  */
 export function getPendingCount(): number {
-  return pendingQueue.length;
+  return useCompletionQueueStore.getState().pending.length;
 }
 
 /**
@@ -251,12 +273,22 @@ export function retryPendingCompletions(): void {
 }
 
 /**
- * Clear the pending queue (use with caution)
+ * Give dead-lettered completions another full set of retries
+ * Pass an ID to retry just that one
  */
-export function clearPendingQueue(): void {
-  pendingQueue = [];
-  if (retryTimeout !== null) {
-    clearTimeout(retryTimeout);
-    retryTimeout = null;
+export function retryDeadLetters(id?: string): void {
+  const queue = useCompletionQueueStore.getState();
+  if (id) {
+    queue.retryDeadLetter(id);
+  } else {
+    queue.retryAllDeadLetters();
   }
+  retryPendingCompletions();
+}
+
+/**
+ * Permanently drop a dead-lettered completion
+ */
+export function discardDeadLetter(id: string): void {
+  useCompletionQueueStore.getState().discardDeadLetter(id);
 }
@@ -0,0 +1,139 @@
+/**
+ * Client-side encryption of synced Yjs updates
+ *
+ * The key is derived from a passphrase with PBKDF2 and never leaves the
+ * device. The server only stores the salt and a verifier - a known string
+ * encrypted with the key - so a new device can tell a wrong passphrase
+ * apart from corrupt data.
+ */
+
+const PBKDF2_ITERATIONS = 310000;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = 'sanjou-e2e-check';
+const DEVICE_KEY_PREFIX = 'sanjou-e2e-key:'; // + keyId
+
+export interface EncryptionMeta {
+  keyId: string;
+  salt: string; // base64
+  iterations: number;
+  verifier: string; // VERIFIER_TEXT encrypted with the key
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const randomBytes = (length: number): Uint8Array => {
+  return crypto.getRandomValues(new Uint8Array(length));
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true, // extractable so it can be remembered on this device
+    ['encrypt', 'decrypt']
+  );
+};
+
+// base64(iv || ciphertext)
+export const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<string> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes));
+  const combined = new Uint8Array(iv.length + ciphertext.length);
+  combined.set(iv);
+  combined.set(ciphertext, iv.length);
+  return toBase64(combined);
+};
+
+// Rejects if the key is wrong or the data was tampered with
+export const decryptBytes = async (key: CryptoKey, encoded: string): Promise<Uint8Array> => {
+  const combined = fromBase64(encoded);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.subarray(0, IV_BYTES) },
+    key,
+    combined.subarray(IV_BYTES)
+  );
+  return new Uint8Array(plaintext);
+};
+
+// New key and metadata for a passphrase
+export const createEncryption = async (passphrase: string): Promise<{ meta: EncryptionMeta; key: CryptoKey }> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const meta: EncryptionMeta = {
+    keyId: toBase64(randomBytes(9)),
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encryptBytes(key, new TextEncoder().encode(VERIFIER_TEXT)),
+  };
+  return { meta, key };
+};
+
+// Derive the key for existing metadata; null if the passphrase is wrong
+export const unlockEncryption = async (meta: EncryptionMeta, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    const check = await decryptBytes(key, meta.verifier);
+    return new TextDecoder().decode(check) === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+// Remember a verified key so this device doesn't ask on every launch
+export const saveDeviceKey = async (keyId: string, key: CryptoKey): Promise<void> => {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  localStorage.setItem(DEVICE_KEY_PREFIX + keyId, toBase64(raw));
+};
+
+export const loadDeviceKey = async (keyId: string): Promise<CryptoKey | null> => {
+  const stored = localStorage.getItem(DEVICE_KEY_PREFIX + keyId);
+  if (!stored) return null;
+  try {
+    return await crypto.subtle.importKey('raw', fromBase64(stored), 'AES-GCM', true, ['encrypt', 'decrypt']);
+  } catch {
+    return null;
+  }
+};
+
+// Every key saved here, current and retired, by keyId
+export const loadDeviceKeys = async (): Promise<Map<string, CryptoKey>> => {
+  const keyIds = Object.keys(localStorage)
+    .filter((name) => name.startsWith(DEVICE_KEY_PREFIX))
+    .map((name) => name.slice(DEVICE_KEY_PREFIX.length));
+  const keys = new Map<string, CryptoKey>();
+  for (const keyId of keyIds) {
+    const key = await loadDeviceKey(keyId);
+    if (key) keys.set(keyId, key);
+  }
+  return keys;
+};
+
+// Drop retired keys once nothing written under them is left to read
+export const forgetDeviceKeysExcept = (keyId: string) => {
+  Object.keys(localStorage)
+    .filter((name) => name.startsWith(DEVICE_KEY_PREFIX) && name !== DEVICE_KEY_PREFIX + keyId)
+    .forEach((name) => localStorage.removeItem(name));
+};
@@ -2,6 +2,7 @@ import {
   getAuth,
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
+  signInAnonymously,
   signOut as firebaseSignOut,
   onAuthStateChanged,
   User,
@@ -82,6 +83,23 @@ export const signUp = async (email: string, password: string): Promise<AuthResul
   }
 };
 
+// Gives a signed-out install its own private sync document
+export const signInAnonymous = async (): Promise<AuthResult> => {
+  const authInstance = initAuth();
+  if (!authInstance) {
+    return { success: false, error: 'Authentication not available' };
+  }
+
+  try {
+    const result = await signInAnonymously(authInstance);
+    return { success: true, user: result.user };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Anonymous sign in failed';
+    console.error('[Auth] Anonymous sign in error:', errorMessage);
+    return { success: false, error: getAuthErrorMessage(error) };
+  }
+};
+
 export const signOut = async (): Promise<AuthResult> => {
   const authInstance = initAuth();
   if (!authInstance) {
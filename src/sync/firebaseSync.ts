@@ -1,52 +1,145 @@
+import { doc, getDoc, Firestore } from 'firebase/firestore';
+import type * as Y from 'yjs';
+import { ydoc, blocksArray } from './yjsProvider';
+import { startUpdateLog, createEncryptedCodec, plainCodec, UpdateLog, UpdateCodec, MAX_SNAPSHOT_BYTES } from './updateLog';
 import {
-  doc,
-  setDoc,
-  onSnapshot,
-  Unsubscribe,
-  Firestore,
-} from 'firebase/firestore';
-import * as Y from 'yjs';
-import { ydoc } from './yjsProvider';
+  createEncryption,
+  unlockEncryption,
+  saveDeviceKey,
+  loadDeviceKeys,
+  forgetDeviceKeysExcept,
+  EncryptionMeta,
+} from './encryption';
 import { initFirebase, isFirebaseConfigured } from './firebaseConfig';
-import { getCurrentUser, subscribeToAuthState } from './firebaseAuth';
-import type { SyncState } from '../models';
+import { getCurrentUser, subscribeToAuthState, signInAnonymous, signOut } from './firebaseAuth';
+import { setSyncState, SyncProvider } from './syncProvider';
+import { recordActivity, updateDiagnostics, errorMessage } from './syncDiagnostics';
+import { useSettingsStore } from '../store/settingsStore';
+import type { Block } from '../models';
 
 const COLLECTION_NAME = 'sync';
-const ANONYMOUS_DOC_ID = 'sanjou-sync-anonymous';
+const DOC_OWNER_KEY = 'sanjou-doc-owner'; // uid whose account the local doc was last merged into
+// Set once this install has left the shared `sanjou-sync-anonymous` doc older
+// builds synced every signed-out install into. Its local copy still holds
+// what it pulled from there, so the first upload to a doc of its own is confirmed.
+const SHARED_DOC_MIGRATED_KEY = 'sanjou-shared-doc-migrated';
+const CLIENT_ID_KEY = 'sanjou-client-id';
 
-const getSyncDocId = (): string => {
-  const user = getCurrentUser();
-  return user ? user.uid : ANONYMOUS_DOC_ID;
+// Whether the local doc may still hold data pulled from the shared doc.
+// Every sync, old builds included, creates a client id first - an install
+// without one never synced, so there is nothing to migrate.
+const mayHoldSharedDocData = (): boolean => {
+  if (localStorage.getItem(SHARED_DOC_MIGRATED_KEY)) return false;
+  if (!localStorage.getItem(CLIENT_ID_KEY)) {
+    localStorage.setItem(SHARED_DOC_MIGRATED_KEY, '1');
+    return false;
+  }
+  return true;
+};
+
+// Every synced doc belongs to a (possibly anonymous) user; signed out stays local
+const getSyncDocId = (): string | null => {
+  return getCurrentUser()?.uid ?? null;
 };
 
-let unsubscribe: Unsubscribe | null = null;
-let syncState: SyncState = 'offline';
-let syncStateListeners: Set<(state: SyncState) => void> = new Set();
+let updateLog: UpdateLog | null = null;
+// Bumped on every teardown, so a setup still awaiting can tell it was cancelled
+let syncGeneration = 0;
+
+// Confirmation before local data is merged into a signed-in account
+export interface MergePrompt {
+  localBlocks: number;
+  anonymous: boolean; // backing up to this install's own doc rather than an account
+}
+
+let mergePrompt: MergePrompt | null = null;
+let resolveMerge: ((confirmed: boolean) => void) | null = null;
+const mergePromptListeners: Set<(prompt: MergePrompt | null) => void> = new Set();
 
-const setSyncState = (state: SyncState) => {
-  syncState = state;
-  syncStateListeners.forEach(listener => listener(state));
+const setMergePrompt = (prompt: MergePrompt | null) => {
+  mergePrompt = prompt;
+  mergePromptListeners.forEach(listener => listener(prompt));
 };
 
-export const getSyncState = (): SyncState => syncState;
+export const subscribeMergePrompt = (callback: (prompt: MergePrompt | null) => void) => {
+  mergePromptListeners.add(callback);
+  callback(mergePrompt);
+  return () => mergePromptListeners.delete(callback);
+};
 
-export const subscribeSyncState = (callback: (state: SyncState) => void) => {
-  syncStateListeners.add(callback);
-  callback(syncState);
-  return () => syncStateListeners.delete(callback);
+export const resolveMergePrompt = (confirmed: boolean) => {
+  resolveMerge?.(confirmed);
+  resolveMerge = null;
+  setMergePrompt(null);
 };
 
-const encodeUpdate = (update: Uint8Array): string => {
-  return btoa(String.fromCharCode(...update));
+const requestMergeConfirmation = (prompt: MergePrompt): Promise<boolean> => {
+  resolveMerge?.(false);
+  return new Promise((resolve) => {
+    resolveMerge = resolve;
+    setMergePrompt(prompt);
+  });
 };
 
-const decodeUpdate = (encoded: string): Uint8Array => {
-  const binary = atob(encoded);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
+// Blocks in the local doc that the account does not have yet
+const countLocalOnlyBlocks = (remote: Y.Doc): number => {
+  const remoteIds = new Set(remote.getArray<Block>('blocks').toArray().map(b => b.id));
+  return blocksArray.toArray().filter(b => !remoteIds.has(b.id)).length;
+};
+
+// End-to-end encryption of the synced doc. The root sync document carries
+// the EncryptionMeta; the key itself only ever lives on devices.
+export type EncryptionStatus = 'off' | 'locked' | 'unlocked';
+
+export interface EncryptionResult {
+  success: boolean;
+  error?: string;
+}
+
+let encryptionStatus: EncryptionStatus = 'off';
+let encryptionMeta: EncryptionMeta | null = null;
+let encryptionKey: CryptoKey | null = null;
+const encryptionListeners: Set<(status: EncryptionStatus) => void> = new Set();
+
+const setEncryption = (status: EncryptionStatus, meta: EncryptionMeta | null, key: CryptoKey | null) => {
+  encryptionStatus = status;
+  encryptionMeta = meta;
+  encryptionKey = key;
+  encryptionListeners.forEach(listener => listener(status));
+};
+
+export const subscribeEncryptionStatus = (callback: (status: EncryptionStatus) => void) => {
+  encryptionListeners.add(callback);
+  callback(encryptionStatus);
+  return () => encryptionListeners.delete(callback);
+};
+
+const readEncryptionMeta = async (db: Firestore, docId: string): Promise<EncryptionMeta | null> => {
+  const snapshot = await getDoc(doc(db, COLLECTION_NAME, docId));
+  return (snapshot.data()?.encryption as EncryptionMeta | undefined) ?? null;
+};
+
+const restartSync = async () => {
+  destroyFirebaseSync();
+  await initFirebaseSync();
+};
+
+// Remote data under a key we don't hold - encryption was turned on or the
+// passphrase changed elsewhere. Stale entries under the current key are skipped.
+let checkingKey = false;
+const handleUnknownKey = async (db: Firestore) => {
+  if (checkingKey) return;
+  checkingKey = true;
+  try {
+    const docId = getSyncDocId();
+    const meta = docId ? await readEncryptionMeta(db, docId) : null;
+    if (meta?.keyId !== encryptionMeta?.keyId) {
+      console.log('[Sync] Remote encryption key changed, restarting sync');
+      await restartSync();
+    }
+  } finally {
+    checkingKey = false;
   }
-  return bytes;
 };
 
 export const initFirebaseSync = async (): Promise<void> => {
@@ -62,94 +155,185 @@ export const initFirebaseSync = async (): Promise<void> => {
     return;
   }
 
+  if (!getCurrentUser()) {
+    console.log('[Sync] Signed out, keeping data on this device only');
+    setSyncState('offline');
+    return;
+  }
+
   setSyncState('syncing');
 
   try {
-    await setupSync(db);
-    setSyncState('synced');
+    if (await setupSync(db)) {
+      setSyncState('synced');
+    }
   } catch (error) {
     console.error('[Sync] Failed to setup:', error);
+    recordActivity({ type: 'error', message: `Failed to set up sync: ${errorMessage(error)}` });
     setSyncState('error');
   }
 };
 
-const setupSync = async (db: Firestore): Promise<void> => {
-  const syncDocRef = doc(db, COLLECTION_NAME, getSyncDocId());
-
-  // Listen for remote changes
-  unsubscribe = onSnapshot(
-    syncDocRef,
-    (snapshot) => {
-      if (snapshot.exists()) {
-        const data = snapshot.data();
-        if (data.update && data.origin !== getClientId()) {
-          try {
-            const update = decodeUpdate(data.update);
-            Y.applyUpdate(ydoc, update, 'firebase');
-            console.log('[Sync] Applied remote update');
-          } catch (error) {
-            console.error('[Sync] Failed to apply remote update:', error);
-          }
-        }
-      }
-      setSyncState('synced');
-    },
-    (error) => {
-      console.error('[Sync] Snapshot error:', error);
-      setSyncState('offline');
-    }
-  );
-
-  // Push local changes
-  ydoc.on('update', async (update: Uint8Array, origin: string) => {
-    if (origin === 'firebase') return; // Don't re-sync changes from firebase
-
-    setSyncState('syncing');
-    try {
-      await setDoc(syncDocRef, {
-        update: encodeUpdate(update),
-        fullState: encodeUpdate(Y.encodeStateAsUpdate(ydoc)),
-        origin: getClientId(),
-        timestamp: Date.now(),
-      });
-      setSyncState('synced');
-    } catch (error) {
-      console.error('[Sync] Failed to push update:', error);
-      setSyncState('offline');
-    }
+// Resolves to false if sync did not start (locked or merge declined)
+const setupSync = async (db: Firestore): Promise<boolean> => {
+  const user = getCurrentUser();
+  const docId = getSyncDocId();
+  if (!user || !docId) return false;
+  const generation = syncGeneration;
+  const isStale = () => generation !== syncGeneration;
+
+  // Ask before local data from another account (or none) lands in this one.
+  // An anonymous doc is this install's own, unless the local copy may still
+  // hold data from the old shared doc. Checked before getClientId creates an id.
+  const needsConfirmation = user.isAnonymous
+    ? mayHoldSharedDocData()
+    : localStorage.getItem(DOC_OWNER_KEY) !== user.uid;
+
+  updateDiagnostics({
+    docId: `${COLLECTION_NAME}/${docId}`,
+    account: user.email ?? 'Anonymous',
+    docLimitBytes: MAX_SNAPSHOT_BYTES,
   });
 
-  // Initial sync - push current state if remote is empty
-  const snapshot = await import('firebase/firestore').then(m =>
-    m.getDoc(syncDocRef)
-  );
-
-  if (!snapshot.exists()) {
-    const fullState = Y.encodeStateAsUpdate(ydoc);
-    await setDoc(syncDocRef, {
-      update: encodeUpdate(fullState),
-      fullState: encodeUpdate(fullState),
-      origin: getClientId(),
-      timestamp: Date.now(),
-    });
+  let codec: UpdateCodec = plainCodec;
+  const meta = await readEncryptionMeta(db, docId);
+  if (isStale()) return false;
+  if (meta) {
+    // Retired keys still read entries written before a passphrase change
+    const keys = await loadDeviceKeys();
+    if (isStale()) return false;
+    const key = keys.get(meta.keyId);
+    if (!key) {
+      // Stay offline until the passphrase is entered on this device
+      console.log('[Sync] Synced data is encrypted, waiting for passphrase');
+      recordActivity({ type: 'error', message: 'Synced data is encrypted - enter the passphrase on this device' });
+      setEncryption('locked', meta, null);
+      setSyncState('error');
+      return false;
+    }
+    codec = createEncryptedCodec(meta.keyId, keys);
+    setEncryption('unlocked', meta, key);
   } else {
-    // Apply remote state
-    const data = snapshot.data();
-    if (data.fullState) {
-      try {
-        const state = decodeUpdate(data.fullState);
-        Y.applyUpdate(ydoc, state, 'firebase');
-      } catch (error) {
-        console.error('[Sync] Failed to apply initial state:', error);
-      }
+    setEncryption('off', null, null);
+  }
+
+  const log = await startUpdateLog({
+    rootRef: doc(db, COLLECTION_NAME, docId),
+    ydoc,
+    clientId: getClientId(),
+    codec,
+    onStateChange: setSyncState,
+    onUnknownKey: () => void handleUnknownKey(db),
+    onActivity: recordActivity,
+    onCompacted: () => {
+      if (encryptionMeta) forgetDeviceKeysExcept(encryptionMeta.keyId);
+    },
+    beforeMerge: needsConfirmation
+      ? async (remote) => {
+          const localBlocks = countLocalOnlyBlocks(remote);
+          return localBlocks === 0 || requestMergeConfirmation({ localBlocks, anonymous: user.isAnonymous });
+        }
+      : undefined,
+  });
+
+  if (isStale()) {
+    // Torn down while loading - a declined prompt here was the teardown, not the user
+    log?.destroy();
+    return false;
+  }
+
+  if (!log) {
+    // Declined - keep the local data out of the account
+    console.log('[Sync] Merge into account declined, signing out');
+    if (user.isAnonymous) {
+      // Otherwise signing out would just start another anonymous backup
+      useSettingsStore.getState().setAnonymousSync(false);
     }
+    await signOut();
+    return false;
+  }
+
+  updateLog = log;
+  localStorage.setItem(DOC_OWNER_KEY, user.uid);
+  localStorage.setItem(SHARED_DOC_MIGRATED_KEY, '1');
+  return true;
+};
+
+// Enter the passphrase on a device whose sync is locked
+export const unlockSync = async (passphrase: string): Promise<EncryptionResult> => {
+  if (encryptionStatus !== 'locked' || !encryptionMeta) {
+    return { success: false, error: 'Sync is not locked' };
+  }
+
+  const key = await unlockEncryption(encryptionMeta, passphrase);
+  if (!key) {
+    return { success: false, error: 'Wrong passphrase - this device cannot decrypt your synced data' };
+  }
+
+  await saveDeviceKey(encryptionMeta.keyId, key);
+  await restartSync();
+  return { success: true };
+};
+
+// Turn on encryption; the snapshot is rewritten encrypted right away
+export const enableEncryption = async (passphrase: string): Promise<EncryptionResult> => {
+  if (!updateLog) {
+    return { success: false, error: 'Sync is not connected' };
+  }
+  if (encryptionStatus !== 'off') {
+    return { success: false, error: 'Sync data is already encrypted' };
+  }
+
+  try {
+    const { meta, key } = await createEncryption(passphrase);
+    await saveDeviceKey(meta.keyId, key);
+    await updateLog.rekey(createEncryptedCodec(meta.keyId, new Map([[meta.keyId, key]])), { encryption: meta });
+    setEncryption('unlocked', meta, key);
+    console.log('[Sync] Encryption enabled');
+    return { success: true };
+  } catch (error) {
+    console.error('[Sync] Failed to enable encryption:', error);
+    return { success: false, error: 'Could not encrypt sync data' };
+  }
+};
+
+// Re-encrypt the snapshot under a new passphrase. Other devices are locked
+// until the new passphrase is entered there.
+export const changePassphrase = async (current: string, next: string): Promise<EncryptionResult> => {
+  if (!updateLog || encryptionStatus !== 'unlocked' || !encryptionMeta || !encryptionKey) {
+    return { success: false, error: 'Sync data is not encrypted' };
+  }
+
+  const previousMeta = encryptionMeta;
+  if (!(await unlockEncryption(previousMeta, current))) {
+    return { success: false, error: 'Current passphrase is incorrect' };
+  }
+
+  try {
+    const { meta, key } = await createEncryption(next);
+    // Keep the old key for log entries written before the change - including
+    // ones other devices push before they notice it. The next compaction folds
+    // those into the snapshot and retires the old key.
+    const keys = new Map([[previousMeta.keyId, encryptionKey], [meta.keyId, key]]);
+    await saveDeviceKey(meta.keyId, key);
+    await updateLog.rekey(createEncryptedCodec(meta.keyId, keys), { encryption: meta });
+    setEncryption('unlocked', meta, key);
+    console.log('[Sync] Passphrase changed');
+    return { success: true };
+  } catch (error) {
+    console.error('[Sync] Failed to change passphrase:', error);
+    return { success: false, error: 'Could not re-encrypt sync data' };
   }
 };
 
 export const destroyFirebaseSync = () => {
-  if (unsubscribe) {
-    unsubscribe();
-    unsubscribe = null;
+  syncGeneration++;
+  if (resolveMerge) {
+    resolveMergePrompt(false);
+  }
+  if (updateLog) {
+    updateLog.destroy();
+    updateLog = null;
   }
   setSyncState('offline');
 };
@@ -158,10 +342,10 @@ let clientId: string | null = null;
 
 const getClientId = (): string => {
   if (!clientId) {
-    clientId = localStorage.getItem('sanjou-client-id');
+    clientId = localStorage.getItem(CLIENT_ID_KEY);
     if (!clientId) {
       clientId = `client-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      localStorage.setItem('sanjou-client-id', clientId);
+      localStorage.setItem(CLIENT_ID_KEY, clientId);
     }
   }
   return clientId;
@@ -176,14 +360,21 @@ export const initAuthAwareSync = async (): Promise<void> => {
     authUnsubscribe();
   }
 
-  // Initial sync
-  await initFirebaseSync();
-
-  // Listen for auth changes and re-sync with new user's data
+  // Fires once auth has loaded, then on every change; (re)sync with that user's document
   authUnsubscribe = subscribeToAuthState(async (user) => {
-    console.log('[Sync] Auth state changed:', user ? user.email : 'signed out');
-    // Destroy current sync and reinitialize with new user's document
+    console.log('[Sync] Auth state changed:', user ? user.email ?? 'anonymous' : 'signed out');
     destroyFirebaseSync();
+
+    const { anonymousSync } = useSettingsStore.getState();
+    if (isFirebaseConfigured() && !user && anonymousSync) {
+      // The resulting auth change starts sync
+      await signInAnonymous();
+      return;
+    }
+    if (user?.isAnonymous && !anonymousSync) {
+      await signOut();
+      return;
+    }
     await initFirebaseSync();
   });
 };
@@ -195,3 +386,15 @@ export const destroyAuthAwareSync = () => {
   }
   destroyFirebaseSync();
 };
+
+export const firebaseProvider: SyncProvider = {
+  name: 'Firebase',
+  isConfigured: isFirebaseConfigured,
+  start: initAuthAwareSync,
+  stop: destroyAuthAwareSync,
+  resync: restartSync,
+  reupload: async () => {
+    if (!updateLog) throw new Error('Sync is not connected');
+    await updateLog.reupload();
+  },
+};
@@ -0,0 +1,11 @@
+import { firebaseProvider } from './firebaseSync';
+import { websocketProvider } from './websocketSync';
+import type { SyncProvider } from './syncProvider';
+import type { SyncBackend } from '../models';
+
+const PROVIDERS: Record<SyncBackend, SyncProvider> = {
+  firebase: firebaseProvider,
+  websocket: websocketProvider,
+};
+
+export const getSyncProvider = (backend: SyncBackend): SyncProvider => PROVIDERS[backend];
@@ -0,0 +1,102 @@
+/**
+ * Safe writes to files shared with Subete
+ *
+ * Lock protocol (Subete follows the same one):
+ * - `<file>.lock` is created exclusively before a read-modify-write and
+ *   removed afterwards; its content is informational only
+ * - A lock older than LOCK_STALE_MS is assumed to belong to a crashed
+ *   writer and is broken
+ *
+ * Writes go to a temp file in the same directory and are renamed over the
+ * target, so readers see either the old or the new file, never half of one.
+ */
+
+import { writeTextFile, rename, remove, stat } from '@tauri-apps/plugin-fs';
+
+const LOCK_SUFFIX = '.lock';
+const LOCK_STALE_MS = 30000;
+const LOCK_ATTEMPTS = 10;
+const LOCK_RETRY_MS = 200;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Break the lock if its writer has evidently gone away
+ * Returns true if the lock was removed
+ */
+async function breakStaleLock(lockPath: string): Promise<boolean> {
+  try {
+    const info = await stat(lockPath);
+    const age = info.mtime ? Date.now() - info.mtime.getTime() : 0;
+    if (age < LOCK_STALE_MS) {
+      return false;
+    }
+    await remove(lockPath);
+    console.warn(`[SafeFile] Broke stale lock ${lockPath} (${Math.round(age / 1000)}s old)`);
+    return true;
+  } catch {
+    // Released between our attempts - just try again
+    return true;
+  }
+}
+
+/**
+ * Run `fn` while holding the advisory lock for `path`
+ * Throws if the lock can't be taken, so callers can retry later
+ */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${path}${LOCK_SUFFIX}`;
+  const owner = JSON.stringify({ app: 'sanjou', lockedAt: new Date().toISOString() });
+
+  let acquired = false;
+  for (let attempt = 0; attempt < LOCK_ATTEMPTS && !acquired; attempt++) {
+    try {
+      await writeTextFile(lockPath, owner, { createNew: true });
+      acquired = true;
+    } catch {
+      if (!(await breakStaleLock(lockPath))) {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+  }
+  if (!acquired) {
+    throw new Error(`${path} is locked by another writer`);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    try {
+      await remove(lockPath);
+    } catch (error) {
+      console.warn('[SafeFile] Failed to release lock:', error);
+    }
+  }
+}
+
+/**
+ * Replace `path` with `content` via a temp file and rename
+ */
+export async function writeTextFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.tmp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  await writeTextFile(tempPath, content);
+  try {
+    await rename(tempPath, path);
+  } catch (error) {
+    await remove(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Move an unreadable file aside, keeping it for manual recovery
+ * Returns the backup path
+ */
+export async function backupCorruptFile(path: string): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = `${path}.corrupt-${stamp}`;
+  await rename(path, backupPath);
+  return backupPath;
+}
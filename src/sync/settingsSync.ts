@@ -0,0 +1,120 @@
+import type * as Y from 'yjs';
+import { ydoc, settingsMap } from './yjsProvider';
+import { useSettingsStore } from '../store/settingsStore';
+import { DEFAULT_SETTINGS } from '../models';
+import type { Settings, SyncedSetting } from '../models';
+
+/**
+ * Settings sync through the Yjs doc
+ *
+ * Each setting is its own key in `settingsMap`, so edits to different
+ * settings on different devices both survive a merge. A conflict on the
+ * same key goes to the newer `updatedAt`. Keys listed in the store's
+ * `deviceLocalKeys` are never written to or read from the doc.
+ */
+
+const MIGRATION_KEY = 'sanjou-settings-migrated';
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[];
+
+// Writes made on this device this session. Yjs settles concurrent writes
+// to one key by client ID, so a newer local write may lose the merge and
+// has to be reasserted.
+const localWrites = new Map<string, SyncedSetting>();
+let applyingRemote = false;
+
+const isSettingKey = (key: string): key is keyof Settings => {
+  return (SETTING_KEYS as string[]).includes(key);
+};
+
+const isDeviceLocal = (key: keyof Settings): boolean => {
+  return useSettingsStore.getState().deviceLocalKeys.includes(key);
+};
+
+const writeSetting = (key: keyof Settings, value: unknown, updatedAt: number) => {
+  const entry: SyncedSetting = { value, updatedAt };
+  localWrites.set(key, entry);
+  settingsMap.set(key, entry);
+};
+
+// Copy synced values into the store, skipping device-local keys
+const applyRemote = (keys: Iterable<string>) => {
+  const updates: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (!isSettingKey(key) || isDeviceLocal(key)) continue;
+    const entry = settingsMap.get(key);
+    if (!entry) continue;
+
+    const mine = localWrites.get(key);
+    if (mine && mine.updatedAt > entry.updatedAt) {
+      settingsMap.set(key, mine);
+      continue;
+    }
+    updates[key] = entry.value;
+  }
+
+  if (Object.keys(updates).length === 0) return;
+  applyingRemote = true;
+  useSettingsStore.setState(updates as Partial<Settings>);
+  applyingRemote = false;
+};
+
+// Seed the doc once from settings saved by builds that only used localStorage.
+// Only customised values are copied, stamped as older than any real edit, so a
+// fresh device never overrides what other devices already chose.
+const migrateLocalSettings = () => {
+  if (localStorage.getItem(MIGRATION_KEY)) return;
+
+  const state = useSettingsStore.getState();
+  let migrated = 0;
+  ydoc.transact(() => {
+    SETTING_KEYS.forEach((key) => {
+      if (settingsMap.has(key) || state[key] === DEFAULT_SETTINGS[key]) return;
+      settingsMap.set(key, { value: state[key], updatedAt: 0 });
+      migrated++;
+    });
+  });
+
+  localStorage.setItem(MIGRATION_KEY, '1');
+  if (migrated > 0) {
+    console.log(`[Settings] Migrated ${migrated} setting(s) into the synced doc`);
+  }
+};
+
+/**
+ * Start syncing settings. Call after local persistence has loaded so the
+ * doc already holds the last known shared values. Returns a cleanup function.
+ */
+export const initSettingsSync = (): (() => void) => {
+  migrateLocalSettings();
+  applyRemote(settingsMap.keys());
+
+  const handleRemote = (event: Y.YMapEvent<SyncedSetting>) => {
+    if (event.transaction.local) return;
+    applyRemote(event.keysChanged);
+  };
+  settingsMap.observe(handleRemote);
+
+  const unsubscribeStore = useSettingsStore.subscribe((state, prev) => {
+    if (applyingRemote) return;
+
+    const now = Date.now();
+    ydoc.transact(() => {
+      SETTING_KEYS.forEach((key) => {
+        if (state[key] !== prev[key] && !state.deviceLocalKeys.includes(key)) {
+          writeSetting(key, state[key], now);
+        }
+      });
+    });
+
+    // Keys switched back to synced pick up the shared value again
+    const rejoined = prev.deviceLocalKeys.filter((key) => !state.deviceLocalKeys.includes(key));
+    if (rejoined.length > 0) {
+      applyRemote(rejoined);
+    }
+  });
+
+  return () => {
+    settingsMap.unobserve(handleRemote);
+    unsubscribeStore();
+  };
+};
@@ -0,0 +1,94 @@
+/**
+ * Shared directory for the Subete integration
+ *
+ * Subete writes tasks.json and Sanjou writes completions.json and
+ * commands.json into one directory both apps agree on: the override set
+ * in Settings, else `subete-sanjou-shared` in the platform data directory
+ * (~/Library/Application Support, ~/.local/share, %APPDATA%). The macOS path
+ * older builds hard-coded is that same directory on macOS; elsewhere, point
+ * the override at wherever Subete writes.
+ */
+
+import { exists, mkdir } from '@tauri-apps/plugin-fs';
+import { dataDir, join } from '@tauri-apps/api/path';
+import { useSettingsStore } from '../store/settingsStore';
+
+export const SHARED_DIR_NAME = 'subete-sanjou-shared';
+export const TASKS_FILE_NAME = 'tasks.json';
+export const COMPLETIONS_FILE_NAME = 'completions.json';
+export const COMMANDS_FILE_NAME = 'commands.json';
+
+export type SharedDirSource = 'override' | 'platform';
+
+export interface SharedDir {
+  path: string;
+  source: SharedDirSource;
+}
+
+export interface SharedDirStatus extends SharedDir {
+  dirFound: boolean;
+  tasksFound: boolean;
+  completionsFound: boolean;
+}
+
+/**
+ * Check a path without throwing - paths outside the fs scope reject
+ */
+async function safeExists(path: string): Promise<boolean> {
+  try {
+    return await exists(path);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the directory to read and write, see the module comment
+ */
+export async function resolveSharedDir(): Promise<SharedDir> {
+  const override = useSettingsStore.getState().subeteSharedDir.trim();
+  if (override) {
+    return { path: override, source: 'override' };
+  }
+
+  // Created by the first completion if it doesn't exist yet
+  return { path: await join(await dataDir(), SHARED_DIR_NAME), source: 'platform' };
+}
+
+/**
+ * Create the shared directory if needed
+ * Returns false if directory creation fails
+ */
+export async function ensureSharedDir(): Promise<boolean> {
+  try {
+    const { path: dirPath } = await resolveSharedDir();
+    if (!(await exists(dirPath))) {
+      await mkdir(dirPath, { recursive: true });
+    }
+    return true;
+  } catch (error) {
+    console.warn('[SharedDir] Failed to ensure shared directory exists:', error);
+    return false;
+  }
+}
+
+/**
+ * Full path to a file in the shared directory
+ */
+export async function getSharedFilePath(fileName: string): Promise<string> {
+  const { path } = await resolveSharedDir();
+  return join(path, fileName);
+}
+
+/**
+ * Which directory is in use and which of the shared files it holds
+ */
+export async function getSharedDirStatus(): Promise<SharedDirStatus> {
+  const dir = await resolveSharedDir();
+  const [dirFound, tasksFound, completionsFound] = await Promise.all([
+    safeExists(dir.path),
+    safeExists(await join(dir.path, TASKS_FILE_NAME)),
+    safeExists(await join(dir.path, COMPLETIONS_FILE_NAME)),
+  ]);
+  return { ...dir, dirFound, tasksFound, completionsFound };
+}
@@ -0,0 +1,166 @@
+/**
+ * Shared file format for the Subete integration
+ *
+ * Every shared file is a versioned envelope:
+ *   tasks.json        { "version": 1, "tasks": [...] }
+ *   completions.json  { "version": 1, "completions": [...] }
+ *   commands.json     { "version": 1, "commands": [...] }
+ * A bare array is read as version 0, the format both apps wrote before.
+ *
+ * Reading is lenient so one bad row never hides the rest:
+ * - Rows that fail validation are skipped and reported, not fatal
+ * - Unknown fields on rows and on the envelope are kept
+ * - A newer version is read best-effort; callers must not rewrite it
+ */
+
+import type { SubeteTask } from '../store/subeteTasksStore';
+import type { TaskCompletion } from './completionSync';
+import type { SubeteCommand } from './subeteCommands';
+
+export const SHARED_FORMAT_VERSION = 1;
+
+export interface SkippedRow {
+  index: number;
+  id?: string;
+  reason: string;
+}
+
+export interface SharedFile<T> {
+  version: number;
+  rows: T[];
+  skipped: SkippedRow[];
+  // Every row as found, valid or not, so a rewrite loses nothing
+  rawRows: unknown[];
+  // Envelope fields other than the version and the rows
+  extra: Record<string, unknown>;
+}
+
+// A valid row, or the reason it isn't one
+type RowValidator<T> = (raw: unknown) => T | string;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validate one tasks.json row
+ */
+export function validateTask(raw: unknown): SubeteTask | string {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.content !== 'string') return 'missing content';
+  if (typeof raw.status !== 'string') return 'missing status';
+  if (!isFiniteNumber(raw.value)) return 'value is not a number';
+  if (!isFiniteNumber(raw.time)) return 'time is not a number';
+
+  const task = { ...raw } as unknown as SubeteTask;
+  // Bad tags aren't worth losing the task over
+  if (task.tags !== undefined && !(Array.isArray(task.tags) && task.tags.every(tag => typeof tag === 'string'))) {
+    delete task.tags;
+  }
+  return task;
+}
+
+/**
+ * Validate one completions.json row
+ */
+export function validateCompletion(raw: unknown): TaskCompletion | string {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.taskId !== 'string' || !raw.taskId) return 'missing taskId';
+  if (typeof raw.completedAt !== 'string' || Number.isNaN(Date.parse(raw.completedAt))) {
+    return 'completedAt is not a date';
+  }
+  if (!isFiniteNumber(raw.duration)) return 'duration is not a number';
+  if (raw.blockId !== undefined && typeof raw.blockId !== 'string') return 'blockId is not a string';
+  return raw as unknown as TaskCompletion;
+}
+
+/**
+ * Validate one commands.json row
+ */
+export function validateCommand(raw: unknown): SubeteCommand | string {
+  if (!isRecord(raw)) return 'not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'missing id';
+  if (typeof raw.taskId !== 'string' || !raw.taskId) return 'missing taskId';
+  if (typeof raw.issuedAt !== 'string') return 'missing issuedAt';
+  switch (raw.type) {
+    case 'mark_done':
+      return raw as unknown as SubeteCommand;
+    case 'set_status':
+      return typeof raw.status === 'string' && raw.status ? raw as unknown as SubeteCommand : 'missing status';
+    case 're_estimate':
+      return isFiniteNumber(raw.time) && raw.time >= 0 ? raw as unknown as SubeteCommand : 'time is not a number';
+    default:
+      return 'unknown command type';
+  }
+}
+
+/**
+ * Parse a shared file, validating each row
+ * Throws only if the file isn't JSON or isn't either format at all
+ */
+export function parseSharedFile<T>(content: string, rowsKey: string, validateRow: RowValidator<T>): SharedFile<T> {
+  const data: unknown = JSON.parse(content);
+
+  let version: number;
+  let rawRows: unknown[];
+  let extra: Record<string, unknown> = {};
+
+  if (Array.isArray(data)) {
+    version = 0;
+    rawRows = data;
+  } else if (isRecord(data) && isFiniteNumber(data.version) && Array.isArray(data[rowsKey])) {
+    const { version: fileVersion, [rowsKey]: fileRows, ...rest } = data;
+    version = fileVersion as number;
+    rawRows = fileRows as unknown[];
+    extra = rest;
+  } else {
+    throw new Error(`Invalid shared file: expected a version and a "${rowsKey}" array`);
+  }
+
+  const rows: T[] = [];
+  const skipped: SkippedRow[] = [];
+  rawRows.forEach((raw, index) => {
+    const result = validateRow(raw);
+    if (typeof result === 'string') {
+      const id = isRecord(raw) && typeof raw.id === 'string' ? raw.id : undefined;
+      skipped.push({ index, id, reason: result });
+    } else {
+      rows.push(result);
+    }
+  });
+
+  return { version, rows, skipped, rawRows, extra };
+}
+
+/**
+ * An empty file in the current format
+ */
+export function emptySharedFile<T>(): SharedFile<T> {
+  return { version: SHARED_FORMAT_VERSION, rows: [], skipped: [], rawRows: [], extra: {} };
+}
+
+/**
+ * Was this written by a newer app than this one understands
+ */
+export function isNewerVersion(version: number): boolean {
+  return version > SHARED_FORMAT_VERSION;
+}
+
+/**
+ * Serialize rows in the current envelope, keeping unknown envelope fields
+ */
+export function serializeSharedFile(rowsKey: string, rows: unknown[], extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({ ...extra, version: SHARED_FORMAT_VERSION, [rowsKey]: rows }, null, 2);
+}
+
+/**
+ * One line per skipped row, for logs and diagnostics
+ */
+export function describeSkippedRow(row: SkippedRow): string {
+  return `Row ${row.index + 1}${row.id ? ` (${row.id})` : ''}: ${row.reason}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Subete commands - Ask Subete to change a task from Sanjou
+ * Location: commands.json in the shared directory (see sharedDir.ts)
+ *
+ * Protocol (Subete follows the same one):
+ * - Sanjou appends commands to commands.json under the shared lock file;
+ *   Subete only reads it
+ * - Subete applies each command once and lists its id in tasks.json, under
+ *   `appliedCommands`, or under `rejectedCommands` with a reason
+ * - Seeing the id there, Sanjou drops the command from commands.json
+ *
+ * Commands wait in the file until acknowledged, so nothing is lost if
+ * Subete isn't running when they're sent.
+ */
+
+import { readTextFile, exists } from '@tauri-apps/plugin-fs';
+import { ensureSharedDir, getSharedFilePath, COMMANDS_FILE_NAME } from './sharedDir';
+import { withFileLock, writeTextFileAtomic, backupCorruptFile } from './safeFile';
+import {
+  SharedFile,
+  parseSharedFile,
+  emptySharedFile,
+  isNewerVersion,
+  serializeSharedFile,
+  validateCommand,
+} from './sharedFormat';
+import { useSubeteTasksStore } from '../store/subeteTasksStore';
+import { showToast } from '../store/toastStore';
+import { generateId } from '../models';
+
+export type SubeteCommandType = 'mark_done' | 'set_status' | 're_estimate';
+
+export interface SubeteCommand {
+  id: string;
+  type: SubeteCommandType;
+  taskId: string;
+  status?: string; // set_status
+  time?: number;   // re_estimate: remaining time, in Subete's units
+  issuedAt: string; // ISO date string
+}
+
+export type SubeteCommandInput = Omit<SubeteCommand, 'id' | 'issuedAt'>;
+
+interface RejectedCommand {
+  id: string;
+  reason?: string;
+}
+
+/**
+ * Read commands.json, backing up a corrupt file rather than overwriting it
+ */
+async function readCommandsFile(filePath: string): Promise<SharedFile<SubeteCommand>> {
+  if (!(await exists(filePath))) {
+    return emptySharedFile();
+  }
+
+  const content = await readTextFile(filePath);
+  try {
+    return parseSharedFile(content, 'commands', validateCommand);
+  } catch {
+    const backupPath = await backupCorruptFile(filePath);
+    console.error(`[SubeteCommands] commands.json was unreadable, backed up to ${backupPath}`);
+    return emptySharedFile();
+  }
+}
+
+/**
+ * Read-modify-write commands.json under the shared lock
+ * Returns the commands left in the file
+ */
+async function updateCommandsFile(
+  update: (commands: SubeteCommand[]) => SubeteCommand[]
+): Promise<SubeteCommand[]> {
+  if (!(await ensureSharedDir())) {
+    throw new Error('Failed to create shared directory');
+  }
+  const filePath = await getSharedFilePath(COMMANDS_FILE_NAME);
+
+  return withFileLock(filePath, async () => {
+    const file = await readCommandsFile(filePath);
+    if (isNewerVersion(file.version)) {
+      throw new Error(`commands.json is format v${file.version}, newer than this version of Sanjou supports`);
+    }
+    // Rows we can't read are dropped here - only Sanjou writes this file
+    const commands = update(file.rows);
+    await writeTextFileAtomic(filePath, serializeSharedFile('commands', commands, file.extra));
+    return commands;
+  });
+}
+
+/**
+ * Send a command to Subete
+ * The change shows up once Subete acknowledges it in tasks.json
+ */
+export async function sendSubeteCommand(
+  input: SubeteCommandInput
+): Promise<{ success: boolean; error?: string }> {
+  const command: SubeteCommand = {
+    ...input,
+    id: generateId(),
+    issuedAt: new Date().toISOString(),
+  };
+
+  try {
+    const pending = await updateCommandsFile((commands) => [...commands, command]);
+    useSubeteTasksStore.getState().setPendingCommands(pending);
+    console.log(`[SubeteCommands] Sent ${command.type} for ${command.taskId}`);
+    return { success: true };
+  } catch (error) {
+    console.warn('[SubeteCommands] Failed to send command:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send command' };
+  }
+}
+
+/**
+ * Load commands still waiting for Subete, e.g. after a restart
+ */
+export async function loadPendingSubeteCommands(): Promise<void> {
+  try {
+    const filePath = await getSharedFilePath(COMMANDS_FILE_NAME);
+    const file = await readCommandsFile(filePath);
+    useSubeteTasksStore.getState().setPendingCommands(file.rows);
+  } catch (error) {
+    console.warn('[SubeteCommands] Failed to load pending commands:', error);
+  }
+}
+
+/**
+ * Match Subete's acknowledgements in tasks.json against pending commands
+ * and drop the acknowledged ones from commands.json
+ */
+export async function processSubeteAcknowledgements(extra: Record<string, unknown>): Promise<void> {
+  const applied = Array.isArray(extra.appliedCommands)
+    ? extra.appliedCommands.filter((id): id is string => typeof id === 'string')
+    : [];
+  const rejected = Array.isArray(extra.rejectedCommands)
+    ? (extra.rejectedCommands as RejectedCommand[]).filter((item) => typeof item?.id === 'string')
+    : [];
+
+  const pending = useSubeteTasksStore.getState().pendingCommands;
+  const acknowledged = new Set([...applied, ...rejected.map((item) => item.id)]);
+  if (!pending.some((command) => acknowledged.has(command.id))) {
+    return;
+  }
+
+  rejected
+    .filter((item) => pending.some((command) => command.id === item.id))
+    .forEach((item) => {
+      showToast.warning(`Subete didn't apply a change${item.reason ? `: ${item.reason}` : ''}`);
+    });
+
+  try {
+    const remaining = await updateCommandsFile((commands) =>
+      commands.filter((command) => !acknowledged.has(command.id))
+    );
+    useSubeteTasksStore.getState().setPendingCommands(remaining);
+  } catch (error) {
+    // Still listed in tasks.json, so they're pruned when next loaded at startup
+    console.warn('[SubeteCommands] Failed to prune acknowledged commands:', error);
+    useSubeteTasksStore.getState().setPendingCommands(
+      pending.filter((command) => !acknowledged.has(command.id))
+    );
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Subete task source - Keep the shared tasks.json loaded for every consumer
+ * Location: tasks.json in the shared directory (see sharedDir.ts)
+ *
+ * One source however many components read tasks:
+ * - Consumers acquire/release it; it runs while anyone holds it
+ * - Watches the shared directory and re-reads only when tasks.json changes
+ * - Falls back to polling with backoff where watching is unavailable
+ *   (no directory yet, outside the fs scope), retrying the watch each poll
+ * - Keeps the last known tasks cached for when the file is unavailable
+ * - Malformed rows are skipped and reported rather than failing the file
+ * - Each change is checked for acknowledgements of Sanjou's commands
+ */
+
+import { readTextFile, exists, watch, UnwatchFn, WatchEvent } from '@tauri-apps/plugin-fs';
+import { resolveSharedDir, getSharedFilePath, TASKS_FILE_NAME } from './sharedDir';
+import { parseSharedFile, validateTask, isNewerVersion, describeSkippedRow, SharedFile } from './sharedFormat';
+import { loadPendingSubeteCommands, processSubeteAcknowledgements } from './subeteCommands';
+import { useSubeteTasksStore, saveCachedTasks, SubeteTask } from '../store/subeteTasksStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { showToast } from '../store/toastStore';
+
+const WATCH_DEBOUNCE_MS = 300;
+const MIN_POLL_INTERVAL_MS = 2000;
+const MAX_POLL_INTERVAL_MS = 60000;
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 500;
+
+let consumers = 0;
+let unwatch: UnwatchFn | null = null;
+let unsubscribeSettings: (() => void) | null = null;
+let pollTimeout: number | null = null;
+let pollInterval = MIN_POLL_INTERVAL_MS;
+// Bumped on stop so a watch that resolves late is dropped
+let generation = 0;
+
+// undefined until the first read; null while the file doesn't exist
+let lastContent: string | null | undefined;
+let previousTaskCount: number | null = null;
+let lastError: string | null = null;
+let consecutiveErrors = 0;
+
+/**
+ * Sleep for a specified duration
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Read tasks.json with retry logic
+ * Returns null content if the file doesn't exist yet
+ */
+async function readTasksFile(retries = MAX_RETRIES): Promise<string | null> {
+  let error: Error | null = null;
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    try {
+      const filePath = await getSharedFilePath(TASKS_FILE_NAME);
+      if (!(await exists(filePath))) {
+        // File doesn't exist - this is normal if Subete hasn't run yet
+        return null;
+      }
+      return await readTextFile(filePath);
+    } catch (err) {
+      error = err instanceof Error ? err : new Error(String(err));
+
+      // Check if it's a lock error that might resolve with retry
+      const message = error.message.toLowerCase();
+      const isRetryable = message.includes('lock') ||
+                          message.includes('busy') ||
+                          message.includes('ebusy') ||
+                          message.includes('eagain');
+
+      if (isRetryable && attempt < retries - 1) {
+        // Wait with exponential backoff before retry
+        const delay = RETRY_DELAY_MS * Math.pow(2, attempt);
+        console.log(`[SubeteTasks] Retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`);
+        await sleep(delay);
+        continue;
+      }
+      break;
+    }
+  }
+
+  throw error || new Error('Failed to read shared tasks');
+}
+
+/**
+ * Tell the user about rows we couldn't use, or a format from a newer Subete
+ */
+function reportFileIssues(file: SharedFile<SubeteTask>): void {
+  if (file.skipped.length > 0) {
+    console.warn('[SubeteTasks] Skipped malformed tasks:', file.skipped.map(describeSkippedRow));
+    const count = file.skipped.length;
+    showToast.warning(`${count} task${count > 1 ? 's' : ''} in tasks.json couldn't be read and ${count > 1 ? 'were' : 'was'} skipped`);
+  }
+  if (isNewerVersion(file.version)) {
+    console.warn(`[SubeteTasks] tasks.json is format v${file.version}, reading what this version understands`);
+    showToast.info('Tasks come from a newer Subete - update Sanjou to see everything');
+  }
+}
+
+/**
+ * Toast when the task count changes (not on the first load)
+ */
+function announceChange(newCount: number): void {
+  if (previousTaskCount === null || newCount === previousTaskCount) return;
+
+  const diff = newCount - previousTaskCount;
+  if (diff > 0) {
+    showToast.success(`${diff} task${diff > 1 ? 's' : ''} synced from Subete`);
+  } else {
+    showToast.info(`Task list updated (${newCount} tasks)`);
+  }
+}
+
+/**
+ * Report a failed read, without repeating the same toast
+ */
+function handleReadError(err: unknown): void {
+  const store = useSubeteTasksStore.getState();
+  const errorMessage = err instanceof Error ? err.message : 'Failed to load tasks';
+  store.setError(errorMessage);
+  store.setSyncStatus('error');
+  consecutiveErrors++;
+
+  // Only show on first error or if error type changes
+  const shouldShowToast = previousTaskCount !== null &&
+                          lastError !== errorMessage &&
+                          consecutiveErrors <= 3;
+
+  if (shouldShowToast) {
+    if (errorMessage.includes('locked') || errorMessage.includes('EBUSY') || errorMessage.includes('busy')) {
+      showToast.warning('Task file is locked, will retry...');
+    } else if (errorMessage.includes('ENOENT') || errorMessage.includes('not found')) {
+      // Don't show error for missing file - it's expected if Subete hasn't run
+      store.setSyncStatus('offline');
+    } else if (errorMessage.includes('parse') || errorMessage.includes('JSON')) {
+      showToast.error('Invalid task file format');
+    } else {
+      showToast.warning('Sync temporarily unavailable');
+    }
+    lastError = errorMessage;
+  }
+  // Tasks are not cleared on error - consumers keep the cached list
+}
+
+/**
+ * Re-read tasks.json into the store
+ * Returns true if the content changed since the last read
+ */
+export async function refreshSubeteTasks(): Promise<boolean> {
+  const store = useSubeteTasksStore.getState();
+  store.setSyncStatus('syncing');
+
+  try {
+    const content = await readTasksFile();
+    const changed = content !== lastContent;
+
+    if (changed) {
+      const file = content === null ? null : parseSharedFile(content, 'tasks', validateTask);
+      const tasks = file ? file.rows : [];
+      if (file) {
+        reportFileIssues(file);
+        processSubeteAcknowledgements(file.extra);
+      }
+      store.setFileReport(file ? file.version : null, file ? file.skipped : []);
+      announceChange(tasks.length);
+      store.setTasks(tasks);
+      if (tasks.length > 0) {
+        saveCachedTasks(tasks);
+      }
+      previousTaskCount = tasks.length;
+      lastContent = content;
+    }
+
+    store.setError(null);
+    store.setSyncStatus('synced');
+    consecutiveErrors = 0;
+
+    // Clear error state if we were previously in error
+    if (lastError) {
+      showToast.success('Sync restored');
+      lastError = null;
+    }
+    return changed;
+  } catch (err) {
+    handleReadError(err);
+    return false;
+  } finally {
+    store.setLoading(false);
+  }
+}
+
+/**
+ * Does this watch event touch tasks.json (not its lock or temp files)
+ */
+function isTasksFileEvent(event: WatchEvent): boolean {
+  return event.paths.some(path => path.endsWith(TASKS_FILE_NAME));
+}
+
+/**
+ * Watch the shared directory - the file itself may not exist yet, and atomic
+ * writers replace it by rename, which ends a watch on the old file
+ * Returns false if watching isn't possible here
+ */
+async function startWatching(): Promise<boolean> {
+  const startedGeneration = generation;
+  try {
+    const { path: dirPath } = await resolveSharedDir();
+    if (!(await exists(dirPath))) {
+      return false;
+    }
+    const stop = await watch(dirPath, async (event) => {
+      // A watch on a removed directory never fires again
+      if (!(await exists(dirPath))) {
+        if (unwatch && startedGeneration === generation) {
+          watchLost();
+        }
+        return;
+      }
+      if (isTasksFileEvent(event)) {
+        refreshSubeteTasks();
+      }
+    }, { delayMs: WATCH_DEBOUNCE_MS });
+
+    if (startedGeneration !== generation) {
+      stop();
+      return false;
+    }
+    unwatch = stop;
+    console.log(`[SubeteTasks] Watching ${dirPath}`);
+    return true;
+  } catch (error) {
+    console.warn('[SubeteTasks] File watching unavailable, polling instead:', error);
+    return false;
+  }
+}
+
+/**
+ * The watched directory went away - poll until it comes back, then watch again
+ */
+function watchLost(): void {
+  unwatch?.();
+  unwatch = null;
+  console.log('[SubeteTasks] Shared directory removed, polling until it is back');
+  refreshSubeteTasks();
+  pollInterval = MIN_POLL_INTERVAL_MS;
+  schedulePoll();
+}
+
+/**
+ * Poll with backoff: back off while nothing changes, reset when it does
+ */
+function schedulePoll(): void {
+  const scheduledGeneration = generation;
+  pollTimeout = window.setTimeout(async () => {
+    pollTimeout = null;
+    const changed = await refreshSubeteTasks();
+    if (scheduledGeneration !== generation) return;
+
+    // The directory may have appeared since - switch to watching if so
+    if (await startWatching()) {
+      await refreshSubeteTasks();
+      return;
+    }
+    if (scheduledGeneration !== generation) return;
+
+    pollInterval = changed ? MIN_POLL_INTERVAL_MS : Math.min(pollInterval * 2, MAX_POLL_INTERVAL_MS);
+    schedulePoll();
+  }, pollInterval);
+}
+
+async function start(): Promise<void> {
+  const startedGeneration = generation;
+  // Before the first read, so acknowledgements in it can be matched
+  await loadPendingSubeteCommands();
+  await refreshSubeteTasks();
+  if (!(await startWatching()) && startedGeneration === generation) {
+    pollInterval = MIN_POLL_INTERVAL_MS;
+    schedulePoll();
+  }
+}
+
+function stop(): void {
+  generation++;
+  if (unwatch) {
+    unwatch();
+    unwatch = null;
+  }
+  if (pollTimeout !== null) {
+    clearTimeout(pollTimeout);
+    pollTimeout = null;
+  }
+}
+
+/**
+ * Start the source for a consumer; call the returned function to release it
+ */
+export function acquireSubeteTasks(): () => void {
+  consumers++;
+  if (consumers === 1) {
+    start();
+    // A different shared directory means a different file to watch
+    unsubscribeSettings = useSettingsStore.subscribe((state, prev) => {
+      if (state.subeteSharedDir !== prev.subeteSharedDir) {
+        stop();
+        lastContent = undefined;
+        start();
+      }
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    consumers--;
+    if (consumers === 0) {
+      stop();
+      unsubscribeSettings?.();
+      unsubscribeSettings = null;
+    }
+  };
+}
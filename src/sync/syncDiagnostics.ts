@@ -0,0 +1,88 @@
+/**
+ * What the active sync provider has been doing, for the diagnostics panel
+ *
+ * Providers report activity as it happens; nothing here is persisted, so
+ * the figures cover the current session only.
+ */
+
+export const FIRESTORE_DOC_LIMIT_BYTES = 1024 * 1024; // Firestore's hard cap per document
+
+export type SyncActivity =
+  | { type: 'push' }
+  | { type: 'pull' }
+  | { type: 'pending'; count: number; bytes: number }
+  | { type: 'snapshot'; bytes: number }
+  | { type: 'error'; message: string };
+
+export interface SyncDiagnostics {
+  provider: string | null;
+  docId: string | null;
+  account: string | null;
+  lastPushAt: number | null;
+  lastPullAt: number | null;
+  pendingUpdates: number;
+  pendingBytes: number;
+  lastError: { message: string; at: number } | null;
+  docBytes: number | null; // size of the stored snapshot, if the provider has one
+  docLimitBytes: number | null; // the most the provider can store as a snapshot, if capped
+}
+
+const EMPTY_DIAGNOSTICS: SyncDiagnostics = {
+  provider: null,
+  docId: null,
+  account: null,
+  lastPushAt: null,
+  lastPullAt: null,
+  pendingUpdates: 0,
+  pendingBytes: 0,
+  lastError: null,
+  docBytes: null,
+  docLimitBytes: null,
+};
+
+let diagnostics: SyncDiagnostics = EMPTY_DIAGNOSTICS;
+const diagnosticsListeners: Set<(diagnostics: SyncDiagnostics) => void> = new Set();
+
+export const updateDiagnostics = (updates: Partial<SyncDiagnostics>) => {
+  diagnostics = { ...diagnostics, ...updates };
+  diagnosticsListeners.forEach(listener => listener(diagnostics));
+};
+
+// Start over for a newly started provider
+export const resetDiagnostics = (provider: string) => {
+  diagnostics = EMPTY_DIAGNOSTICS;
+  updateDiagnostics({ provider });
+};
+
+export const getDiagnostics = (): SyncDiagnostics => diagnostics;
+
+export const subscribeDiagnostics = (callback: (diagnostics: SyncDiagnostics) => void) => {
+  diagnosticsListeners.add(callback);
+  callback(diagnostics);
+  return () => diagnosticsListeners.delete(callback);
+};
+
+export const recordActivity = (activity: SyncActivity) => {
+  const now = Date.now();
+  switch (activity.type) {
+    case 'push':
+      updateDiagnostics({ lastPushAt: now });
+      break;
+    case 'pull':
+      updateDiagnostics({ lastPullAt: now });
+      break;
+    case 'pending':
+      updateDiagnostics({ pendingUpdates: activity.count, pendingBytes: activity.bytes });
+      break;
+    case 'snapshot':
+      updateDiagnostics({ docBytes: activity.bytes });
+      break;
+    case 'error':
+      updateDiagnostics({ lastError: { message: activity.message, at: now } });
+      break;
+  }
+};
+
+export const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
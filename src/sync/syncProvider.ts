@@ -0,0 +1,82 @@
+import { resetDiagnostics, recordActivity, errorMessage } from './syncDiagnostics';
+import type { SyncState } from '../models';
+
+/**
+ * Remote sync backends
+ *
+ * The Yjs doc and its IndexedDB copy are the source of truth; a provider
+ * only keeps that doc in step with some server. Exactly one provider runs
+ * at a time, chosen in settings, and all of them report through the shared
+ * sync state below.
+ */
+
+export interface SyncProvider {
+  name: string;
+  isConfigured: () => boolean;
+  start: () => Promise<void>;
+  stop: () => void;
+  resync: () => Promise<void>; // drop the connection and sync from scratch
+  reupload: () => Promise<void>; // send the whole local state, whatever the server has
+}
+
+let syncState: SyncState = 'offline';
+const syncStateListeners: Set<(state: SyncState) => void> = new Set();
+
+export const setSyncState = (state: SyncState) => {
+  syncState = state;
+  syncStateListeners.forEach(listener => listener(state));
+};
+
+export const getSyncState = (): SyncState => syncState;
+
+export const subscribeSyncState = (callback: (state: SyncState) => void) => {
+  syncStateListeners.add(callback);
+  callback(syncState);
+  return () => syncStateListeners.delete(callback);
+};
+
+let activeProvider: SyncProvider | null = null;
+
+export const getActiveProvider = (): SyncProvider | null => activeProvider;
+
+// Stop whatever is running and start `provider`; unconfigured providers leave sync offline
+export const startSyncProvider = async (provider: SyncProvider): Promise<void> => {
+  stopSyncProvider();
+  resetDiagnostics(provider.name);
+  if (!provider.isConfigured()) {
+    console.log(`[Sync] ${provider.name} not configured, skipping sync setup`);
+    setSyncState('offline');
+    return;
+  }
+  activeProvider = provider;
+  await provider.start();
+};
+
+// Failures are surfaced through the diagnostics panel rather than thrown
+export const resyncActiveProvider = async (): Promise<void> => {
+  if (!activeProvider) return;
+  try {
+    await activeProvider.resync();
+  } catch (error) {
+    console.error('[Sync] Resync failed:', error);
+    recordActivity({ type: 'error', message: `Resync failed: ${errorMessage(error)}` });
+  }
+};
+
+export const reuploadActiveProvider = async (): Promise<void> => {
+  if (!activeProvider) return;
+  try {
+    await activeProvider.reupload();
+  } catch (error) {
+    console.error('[Sync] Re-upload failed:', error);
+    recordActivity({ type: 'error', message: `Re-upload failed: ${errorMessage(error)}` });
+  }
+};
+
+export const stopSyncProvider = () => {
+  if (activeProvider) {
+    activeProvider.stop();
+    activeProvider = null;
+  }
+  setSyncState('offline');
+};
@@ -0,0 +1,101 @@
+import { ydoc, taskNotesMap, legacyTaskNotesMap, tasksMap } from './yjsProvider';
+import { useSubeteTasksStore } from '../store/subeteTasksStore';
+import { formatTaskRef, parseTaskRef } from '../tasks/taskProvider';
+import type { TaskRef, TaskNote } from '../models';
+
+/**
+ * Task notes are keyed by where the task lives:
+ * - `subete:<id>`, `sanjou:<id>`, ... for picked tasks, so renames keep them
+ * - `text:<task text>` for tasks typed into the block by hand
+ *
+ * Builds before this keyed notes by task text alone, in a separate map.
+ * Those entries are moved over once Subete's tasks are loaded, re-linked to
+ * the Subete (or Sanjou) task whose text matches, or kept as text notes.
+ * Older builds on other devices can still write there, so it's watched.
+ */
+
+const TEXT_PREFIX = 'text:';
+
+export const taskNoteKey = (task: TaskRef | null, text: string): string | null => {
+  if (task) return formatTaskRef(task);
+  const trimmed = text.trim();
+  return trimmed ? `${TEXT_PREFIX}${trimmed}` : null;
+};
+
+// The task a key points at, or null for a free-typed task's notes
+export const parseTaskNoteKey = (key: string): TaskRef | null => parseTaskRef(key);
+
+// Two notes for one task - keep both rather than pick one
+const mergeNotes = (existing: TaskNote | undefined, notes: string, title: string): TaskNote => ({
+  notes: existing && existing.notes.trim() !== notes.trim() ? `${existing.notes}\n\n---\n\n${notes}` : notes,
+  title: existing?.title ?? title,
+  modifiedAt: Date.now(),
+});
+
+// Where a legacy note for `content` belongs now
+const relinkLegacyNote = (content: string): string => {
+  const subeteMatches = useSubeteTasksStore.getState().tasks.filter((task) => task.content === content);
+  if (subeteMatches.length === 1) return `subete:${subeteMatches[0].id}`;
+
+  const sanjouMatches = Array.from(tasksMap.values()).filter((task) => task.title === content);
+  if (sanjouMatches.length === 1) return `sanjou:${sanjouMatches[0].id}`;
+
+  // Ambiguous or gone - a text note still shows for that text, and can be reassigned
+  return `${TEXT_PREFIX}${content}`;
+};
+
+const migrateLegacyNotes = () => {
+  if (legacyTaskNotesMap.size === 0) return;
+
+  let relinked = 0;
+  let kept = 0;
+  ydoc.transact(() => {
+    Array.from(legacyTaskNotesMap.entries()).forEach(([content, notes]) => {
+      if (notes.trim()) {
+        const key = relinkLegacyNote(content);
+        taskNotesMap.set(key, mergeNotes(taskNotesMap.get(key), notes, content));
+        if (key.startsWith(TEXT_PREFIX)) {
+          kept++;
+        } else {
+          relinked++;
+        }
+      }
+      legacyTaskNotesMap.delete(content);
+    });
+  });
+  console.log(`[TaskNotes] Migrated notes: ${relinked} linked to tasks, ${kept} kept by text`);
+};
+
+/**
+ * Move notes a task's way: to another task, or from text to a task
+ */
+export const reassignTaskNote = (fromKey: string, toKey: string, title: string) => {
+  const note = taskNotesMap.get(fromKey);
+  if (!note || fromKey === toKey) return;
+  ydoc.transact(() => {
+    taskNotesMap.set(toKey, { ...mergeNotes(taskNotesMap.get(toKey), note.notes, title), title });
+    taskNotesMap.delete(fromKey);
+  });
+};
+
+/**
+ * Start migrating text-keyed notes. Call after local persistence has loaded.
+ * Waits for Subete's first read so notes can be re-linked to its tasks.
+ * Returns a cleanup function.
+ */
+export const initTaskNotesMigration = (): (() => void) => {
+  const tryMigrate = () => {
+    if (!useSubeteTasksStore.getState().loading) migrateLegacyNotes();
+  };
+
+  tryMigrate();
+  legacyTaskNotesMap.observe(tryMigrate);
+  const unsubscribeSubete = useSubeteTasksStore.subscribe((state, prev) => {
+    if (prev.loading && !state.loading) tryMigrate();
+  });
+
+  return () => {
+    legacyTaskNotesMap.unobserve(tryMigrate);
+    unsubscribeSubete();
+  };
+};
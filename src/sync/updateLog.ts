@@ -0,0 +1,509 @@
+import {
+  addDoc,
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+  DocumentReference,
+  DocumentSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
+import * as Y from 'yjs';
+import { encryptBytes, decryptBytes } from './encryption';
+import { errorMessage, FIRESTORE_DOC_LIMIT_BYTES } from './syncDiagnostics';
+import type { SyncActivity } from './syncDiagnostics';
+import type { SyncState } from '../models';
+
+/**
+ * Append-only Yjs update log in Firestore
+ *
+ * Layout under a sync document:
+ * - the compacted snapshot (a base64 Yjs update) is split across
+ *   `snapshots/{snapshotId}_{n}`, since it outgrows a single document;
+ *   the document itself names the current snapshotId and its chunk count
+ * - `updates/{id}` holds one Yjs update each and is never overwritten
+ *
+ * Readers apply the snapshot plus every logged update. Yjs updates are
+ * idempotent and order-independent, so duplicates and reordering are harmless.
+ * Compaction merges what this client has seen into the existing snapshot and
+ * only then deletes those entries, so updates it has not seen stay in the log.
+ *
+ * Payloads go through an UpdateCodec; encrypted ones are tagged with the
+ * id of the key that wrote them. Once the snapshot has been written under a
+ * key, untagged (plain) payloads are refused - otherwise anyone with access
+ * to the server could slip unencrypted updates into an encrypted doc.
+ */
+
+const UPDATES_COLLECTION = 'updates';
+const SNAPSHOTS_COLLECTION = 'snapshots';
+const SNAPSHOT_CHUNK_CHARS = FIRESTORE_DOC_LIMIT_BYTES - 64 * 1024; // headroom for the doc's name and fields
+const MAX_SNAPSHOT_CHUNKS = 10; // a transaction's writes must stay under 10 MiB
+export const MAX_SNAPSHOT_BYTES = SNAPSHOT_CHUNK_CHARS * MAX_SNAPSHOT_CHUNKS;
+const PUSH_DEBOUNCE_MS = 300; // coalesce bursts of edits into one log entry
+const COMPACT_THRESHOLD = 200; // log entries before a client folds them into the snapshot
+const DELETE_BATCH_SIZE = 400; // Firestore caps a batch at 500 writes
+
+export const encodeUpdate = (update: Uint8Array): string => {
+  // Chunked - spreading a large update into fromCharCode overflows the stack
+  let binary = '';
+  for (let i = 0; i < update.length; i += 0x8000) {
+    binary += String.fromCharCode(...update.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const decodeUpdate = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export interface UpdateCodec {
+  keyId: string | null; // key new payloads are written with; null for plain base64
+  canDecode: (keyId: string | null) => boolean;
+  encode: (update: Uint8Array) => Promise<string>;
+  decode: (encoded: string, keyId: string | null) => Promise<Uint8Array>;
+}
+
+export const plainCodec: UpdateCodec = {
+  keyId: null,
+  canDecode: (keyId) => keyId === null,
+  encode: async (update) => encodeUpdate(update),
+  decode: async (encoded) => decodeUpdate(encoded),
+};
+
+/**
+ * Encrypts with `keyId`'s key. `keys` may hold earlier keys too, so payloads
+ * written before a passphrase change stay readable. Unencrypted ones are only
+ * readable until the log is encrypted - the log enforces that.
+ */
+export const createEncryptedCodec = (keyId: string, keys: Map<string, CryptoKey>): UpdateCodec => ({
+  keyId,
+  canDecode: (id) => id === null || keys.has(id),
+  encode: (update) => encryptBytes(keys.get(keyId)!, update),
+  decode: async (encoded, id) => (id === null ? decodeUpdate(encoded) : decryptBytes(keys.get(id)!, encoded)),
+});
+
+const isEmptyUpdate = (update: Uint8Array): boolean => {
+  const { structs, ds } = Y.decodeUpdate(update);
+  return structs.length === 0 && ds.clients.size === 0;
+};
+
+// Where the current snapshot lives: chunk documents, or a legacy root field
+interface StoredSnapshot {
+  id: string; // snapshotId, or the legacy encoded value itself
+  chunks: number; // 0 for a legacy field
+  legacy: string | null;
+  keyId: string | null;
+}
+
+// Written under a key - the snapshot's own key id, or the encryption metadata
+const isEncryptedRoot = (data: Record<string, unknown> | undefined): boolean =>
+  typeof data?.snapshotKeyId === 'string' ||
+  typeof (data?.encryption as { keyId?: unknown } | undefined)?.keyId === 'string';
+
+// Earlier builds kept the snapshot in a `snapshot` field, and before the
+// update log the whole doc in `fullState`
+const getStoredSnapshot = (data: Record<string, unknown> | undefined): StoredSnapshot | null => {
+  const keyId = (data?.snapshotKeyId as string | undefined) ?? null;
+  if (typeof data?.snapshotId === 'string' && typeof data.snapshotChunks === 'number') {
+    return { id: data.snapshotId, chunks: data.snapshotChunks, legacy: null, keyId };
+  }
+  const legacy = data?.snapshot ?? data?.fullState;
+  if (typeof legacy !== 'string') return null;
+  return { id: legacy, chunks: 0, legacy, keyId };
+};
+
+const splitChunks = (encoded: string): string[] => {
+  const chunks: string[] = [];
+  for (let i = 0; i < encoded.length; i += SNAPSHOT_CHUNK_CHARS) {
+    chunks.push(encoded.slice(i, i + SNAPSHOT_CHUNK_CHARS));
+  }
+  return chunks.length > 0 ? chunks : [''];
+};
+
+interface UpdateLogOptions {
+  rootRef: DocumentReference;
+  ydoc: Y.Doc;
+  clientId: string;
+  codec?: UpdateCodec;
+  origin?: string; // transaction origin for remote updates, so they aren't pushed back
+  compactThreshold?: number;
+  onStateChange?: (state: SyncState) => void;
+  // Called with the remote state before it touches ydoc; false aborts the merge
+  beforeMerge?: (remote: Y.Doc) => Promise<boolean>;
+  // Remote data arrived under a key this codec doesn't have
+  onUnknownKey?: (keyId: string | null) => void;
+  onActivity?: (activity: SyncActivity) => void;
+  // This client folded the log into the snapshot (not counting a rekey)
+  onCompacted?: () => void;
+}
+
+export interface UpdateLog {
+  flush: () => Promise<void>; // push buffered local updates now
+  compact: () => Promise<void>;
+  reupload: () => Promise<void>; // fold the whole local state into the snapshot
+  // Switch codec and rewrite the snapshot with it; `fields` are set on the root doc alongside
+  rekey: (codec: UpdateCodec, fields: Record<string, unknown>) => Promise<void>;
+  destroy: () => void;
+}
+
+/**
+ * Load the remote log into `ydoc`, push whatever the remote is missing
+ * (by state vector), then keep both sides in sync until destroyed.
+ * Resolves to null if `beforeMerge` declined; nothing was changed then.
+ */
+export const startUpdateLog = async ({
+  rootRef,
+  ydoc,
+  clientId,
+  codec: initialCodec = plainCodec,
+  origin = 'firebase',
+  compactThreshold = COMPACT_THRESHOLD,
+  onStateChange,
+  beforeMerge,
+  onUnknownKey,
+  onActivity,
+  onCompacted,
+}: UpdateLogOptions): Promise<UpdateLog | null> => {
+  const updatesRef = collection(rootRef, UPDATES_COLLECTION);
+  const snapshotsRef = collection(rootRef, SNAPSHOTS_COLLECTION);
+  const db = rootRef.firestore;
+  const chunkRef = (snapshotId: string, index: number) => doc(snapshotsRef, `${snapshotId}_${index}`);
+
+  let codec = initialCodec;
+  // Log entries whose content is already in ydoc - what compaction may delete
+  const seen = new Set<string>();
+  let lastSnapshot: string | null = null;
+  // Set once the snapshot is written under a key; plain payloads are refused from then on
+  let encryptedOnly = false;
+  let pending: Uint8Array[] = [];
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let compaction: Promise<void> | null = null;
+  let destroyed = false;
+
+  const applyRemote = (update: Uint8Array) => {
+    Y.applyUpdate(ydoc, update, origin);
+    onActivity?.({ type: 'pull' });
+  };
+
+  const reportPending = () => {
+    const bytes = pending.reduce((total, update) => total + update.length, 0);
+    onActivity?.({ type: 'pending', count: pending.length, bytes });
+  };
+
+  const reportError = (context: string, error: unknown) => {
+    console.error(`[Sync] ${context}:`, error);
+    onActivity?.({ type: 'error', message: `${context}: ${errorMessage(error)}` });
+  };
+
+  // Decode a stored payload, or null if it was written with a key we lack
+  const refusesPayload = (keyId: string | null) =>
+    keyId === null && encryptedOnly && codec.keyId !== null;
+
+  const readPayload = async (encoded: string, keyId: string | null): Promise<Uint8Array | null> => {
+    if (refusesPayload(keyId)) {
+      console.warn('[Sync] Refused an unencrypted update in an encrypted log');
+      onActivity?.({ type: 'error', message: 'Refused an unencrypted update - synced data is encrypted' });
+      onUnknownKey?.(keyId);
+      return null;
+    }
+    if (!codec.canDecode(keyId)) {
+      onUnknownKey?.(keyId);
+      return null;
+    }
+    return codec.decode(encoded, keyId);
+  };
+
+  // Joined chunks of a stored snapshot; null if some are gone - a newer
+  // compaction replaced it while this was reading
+  const readSnapshot = async (
+    stored: StoredSnapshot,
+    get: (ref: DocumentReference) => Promise<DocumentSnapshot>
+  ): Promise<string | null> => {
+    if (stored.legacy !== null) return stored.legacy;
+    const chunks = await Promise.all(
+      Array.from({ length: stored.chunks }, (_, index) => get(chunkRef(stored.id, index)))
+    );
+    if (chunks.some((chunk) => typeof chunk.data()?.data !== 'string')) return null;
+    return chunks.map((chunk) => chunk.data()!.data as string).join('');
+  };
+
+  const appendUpdate = async (update: Uint8Array) => {
+    const ref = await addDoc(updatesRef, {
+      update: await codec.encode(update),
+      keyId: codec.keyId,
+      origin: clientId,
+      createdAt: serverTimestamp(),
+    });
+    seen.add(ref.id);
+    onActivity?.({ type: 'push' });
+  };
+
+  // Pass foldLarge = false from compaction, which folds pending updates in itself
+  const flush = async (foldLarge = true) => {
+    if (pushTimer !== null) {
+      clearTimeout(pushTimer);
+      pushTimer = null;
+    }
+    if (pending.length === 0) return;
+
+    const merged = Y.mergeUpdates(pending);
+    // Too big for one log entry once encoded - it goes into the snapshot instead
+    if (Math.ceil((merged.length + 28) / 3) * 4 > SNAPSHOT_CHUNK_CHARS) {
+      pending = [merged];
+      if (foldLarge) void compact();
+      return;
+    }
+    pending = [];
+    onStateChange?.('syncing');
+    try {
+      await appendUpdate(merged);
+      reportPending();
+      onStateChange?.('synced');
+    } catch (error) {
+      reportError('Failed to push update', error);
+      // Keep it for the next push; Yjs tolerates the duplicate if it did land
+      pending.unshift(merged);
+      reportPending();
+      onStateChange?.('offline');
+    }
+  };
+
+  const runCompaction = async (fields: Record<string, unknown> = {}) => {
+    await flush(false);
+    const included = Array.from(seen);
+    const local = Y.encodeStateAsUpdate(ydoc);
+    // Whatever is still pending is in `local` too
+    const folded = [...pending];
+
+    // Merge rather than overwrite - another client may have compacted
+    // updates this one has not received yet
+    const result = await runTransaction(db, async (transaction) => {
+      const current = await transaction.get(rootRef);
+      const existing = getStoredSnapshot(current.data());
+      let snapshot = local;
+      if (existing) {
+        if (refusesPayload(existing.keyId) || !codec.canDecode(existing.keyId)) {
+          throw new Error('Remote snapshot uses an unknown key');
+        }
+        const stored = await readSnapshot(existing, (ref) => transaction.get(ref));
+        if (stored === null) throw new Error('Remote snapshot is incomplete');
+        snapshot = Y.mergeUpdates([await codec.decode(stored, existing.keyId), local]);
+      }
+      const encoded = await codec.encode(snapshot);
+      // Too big to store - leave the log as it is rather than fail mid-write
+      if (encoded.length > MAX_SNAPSHOT_BYTES) return { bytes: encoded.length, snapshotId: null };
+
+      const snapshotId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      const chunks = splitChunks(encoded);
+      chunks.forEach((chunk, index) => transaction.set(chunkRef(snapshotId, index), { data: chunk }));
+      for (let index = 0; index < (existing?.chunks ?? 0); index++) {
+        transaction.delete(chunkRef(existing!.id, index));
+      }
+      transaction.set(rootRef, {
+        ...fields,
+        snapshotId,
+        snapshotChunks: chunks.length,
+        snapshotKeyId: codec.keyId,
+        compactedAt: serverTimestamp(),
+        compactedBy: clientId,
+        // Leftovers from the single-field and single-document formats
+        snapshot: deleteField(),
+        update: deleteField(),
+        fullState: deleteField(),
+        origin: deleteField(),
+        timestamp: deleteField(),
+      }, { merge: true });
+      return { bytes: encoded.length, snapshotId };
+    });
+
+    onActivity?.({ type: 'snapshot', bytes: result.bytes });
+    if (result.snapshotId === null) {
+      throw new Error(
+        `Snapshot would be ${Math.round(result.bytes / 1024)} KB, over the ${Math.round(MAX_SNAPSHOT_BYTES / 1024)} KB limit - the log was left uncompacted`
+      );
+    }
+    lastSnapshot = result.snapshotId;
+
+    for (let i = 0; i < included.length; i += DELETE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      included.slice(i, i + DELETE_BATCH_SIZE).forEach((id) => {
+        batch.delete(doc(updatesRef, id));
+      });
+      await batch.commit();
+    }
+    included.forEach((id) => seen.delete(id));
+    pending = pending.filter((update) => !folded.includes(update));
+    reportPending();
+    if (codec.keyId !== null) encryptedOnly = true;
+    console.log(`[Sync] Compacted ${included.length} update(s) into the snapshot`);
+  };
+
+  const compact = async () => {
+    if (compaction || destroyed) return;
+    compaction = runCompaction()
+      .then(() => onCompacted?.())
+      .catch((error) => reportError('Compaction failed', error))
+      .finally(() => {
+        compaction = null;
+      });
+    await compaction;
+  };
+
+  // Through the snapshot - the whole state as one log entry could outgrow a document
+  const reupload = async () => {
+    if (compaction) await compaction;
+    await runCompaction();
+    console.log('[Sync] Re-uploaded the full local state');
+  };
+
+  const rekey = async (nextCodec: UpdateCodec, fields: Record<string, unknown>) => {
+    if (compaction) await compaction;
+    await flush(false);
+    const previous = codec;
+    codec = nextCodec;
+    try {
+      await runCompaction(fields);
+    } catch (error) {
+      codec = previous;
+      throw error;
+    }
+  };
+
+  // Load the remote into a mirror first - it gives the remote state vector
+  // and lets the caller inspect the remote before anything is merged
+  const mirror = new Y.Doc();
+  // Retried if a compaction replaces the snapshot while its chunks are read
+  for (let attempt = 0; ; attempt++) {
+    const rootSnapshot = await getDoc(rootRef);
+    encryptedOnly = isEncryptedRoot(rootSnapshot.data());
+    const stored = getStoredSnapshot(rootSnapshot.data());
+    if (!stored) break;
+    const encoded = await readSnapshot(stored, getDoc);
+    if (encoded === null) {
+      if (attempt < 2) continue;
+      throw new Error('Remote snapshot is incomplete');
+    }
+    lastSnapshot = stored.id;
+    onActivity?.({ type: 'snapshot', bytes: encoded.length });
+    const update = await readPayload(encoded, stored.keyId);
+    if (update) Y.applyUpdate(mirror, update);
+    break;
+  }
+
+  const logSnapshot = await getDocs(updatesRef);
+  for (const entry of logSnapshot.docs) {
+    const data = entry.data();
+    const update = await readPayload(data.update, data.keyId ?? null);
+    if (!update) continue;
+    Y.applyUpdate(mirror, update);
+    seen.add(entry.id);
+  }
+  console.log(`[Sync] Loaded snapshot and ${logSnapshot.size} logged update(s)`);
+
+  if (beforeMerge && !(await beforeMerge(mirror))) {
+    mirror.destroy();
+    return null;
+  }
+  applyRemote(Y.encodeStateAsUpdate(mirror));
+
+  // Catch the remote up on anything made here while offline
+  const missing = Y.encodeStateAsUpdate(ydoc, Y.encodeStateVector(mirror));
+  mirror.destroy();
+
+  // Push local changes, batched
+  const handleUpdate = (update: Uint8Array, updateOrigin: unknown) => {
+    if (updateOrigin === origin) return; // Don't re-sync changes from remote
+    pending.push(update);
+    reportPending();
+    if (pushTimer === null) {
+      pushTimer = setTimeout(() => {
+        pushTimer = null;
+        void flush();
+      }, PUSH_DEBOUNCE_MS);
+    }
+  };
+  ydoc.on('update', handleUpdate);
+
+  if (!isEmptyUpdate(missing)) {
+    try {
+      await appendUpdate(missing);
+    } catch (error) {
+      // The caller never gets a handle to stop this log, so unhook it here
+      ydoc.off('update', handleUpdate);
+      if (pushTimer !== null) clearTimeout(pushTimer);
+      throw error;
+    }
+    console.log('[Sync] Pushed local changes missing from remote');
+  }
+
+  // Listen for remote log entries
+  const unsubscribeLog: Unsubscribe = onSnapshot(
+    updatesRef,
+    async (snapshot) => {
+      for (const change of snapshot.docChanges()) {
+        if (change.type !== 'added' || seen.has(change.doc.id)) continue;
+        const data = change.doc.data();
+        if (data.origin === clientId) {
+          seen.add(change.doc.id); // our own write, already local
+          continue;
+        }
+        try {
+          const update = await readPayload(data.update, data.keyId ?? null);
+          if (!update) continue;
+          seen.add(change.doc.id);
+          applyRemote(update);
+        } catch (error) {
+          reportError('Failed to apply remote update', error);
+        }
+      }
+      onStateChange?.('synced');
+
+      if (snapshot.size >= compactThreshold) {
+        void compact();
+      }
+    },
+    (error) => {
+      reportError('Snapshot error', error);
+      onStateChange?.('offline');
+    }
+  );
+
+  // Another client's compaction may fold in entries we never received
+  const unsubscribeRoot: Unsubscribe = onSnapshot(rootRef, async (snapshot) => {
+    if (isEncryptedRoot(snapshot.data())) encryptedOnly = true;
+    const remote = getStoredSnapshot(snapshot.data());
+    if (!remote || remote.id === lastSnapshot) return;
+    try {
+      const encoded = await readSnapshot(remote, getDoc);
+      // Already replaced - the newer one arrives as its own change
+      if (encoded === null) return;
+      lastSnapshot = remote.id;
+      onActivity?.({ type: 'snapshot', bytes: encoded.length });
+      const update = await readPayload(encoded, remote.keyId);
+      if (update) applyRemote(update);
+    } catch (error) {
+      reportError('Failed to apply remote snapshot', error);
+    }
+  });
+
+  const destroy = () => {
+    if (destroyed) return;
+    destroyed = true;
+    ydoc.off('update', handleUpdate);
+    unsubscribeLog();
+    unsubscribeRoot();
+    void flush();
+  };
+
+  return { flush, compact, reupload, rekey, destroy };
+};
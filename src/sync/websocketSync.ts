@@ -0,0 +1,233 @@
+import * as Y from 'yjs';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { ydoc } from './yjsProvider';
+import { setSyncState, SyncProvider } from './syncProvider';
+import { recordActivity, updateDiagnostics } from './syncDiagnostics';
+import type { SyncActivity } from './syncDiagnostics';
+import { useSettingsStore } from '../store/settingsStore';
+import type { SyncState } from '../models';
+
+/**
+ * Sync with a self-hosted y-websocket compatible server
+ *
+ * Speaks the y-protocols sync messages: both sides send their state vector
+ * (step 1), answer with what the other is missing (step 2), then stream
+ * updates. Awareness messages are ignored. Reconnects with backoff, and the
+ * step 1/2 exchange on reconnect catches both sides up on offline edits.
+ */
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AUTH = 2;
+const SYNC_STEP_1 = 0;
+const SYNC_STEP_2 = 1;
+const SYNC_UPDATE = 2;
+const AUTH_PERMISSION_DENIED = 0;
+
+const ORIGIN = 'websocket'; // transaction origin for remote updates, so they aren't sent back
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// y-websocket servers take the room from the path; the token rides along as a query param
+export const buildRoomUrl = (serverUrl: string, room: string, token?: string): string => {
+  const base = serverUrl.trim().replace(/\/+$/, '');
+  const query = token ? `?token=${encodeURIComponent(token)}` : '';
+  return `${base}/${encodeURIComponent(room)}${query}`;
+};
+
+const encodeSyncMessage = (type: number, payload: Uint8Array): Uint8Array => {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  encoding.writeVarUint(encoder, type);
+  encoding.writeVarUint8Array(encoder, payload);
+  return encoding.toUint8Array(encoder);
+};
+
+interface WebsocketConnectionOptions {
+  serverUrl: string;
+  room: string;
+  token?: string;
+  ydoc: Y.Doc;
+  WebSocketImpl?: typeof WebSocket; // for environments without a global WebSocket
+  onStateChange?: (state: SyncState) => void;
+  onActivity?: (activity: SyncActivity) => void;
+}
+
+export interface WebsocketConnection {
+  reupload: () => void; // send the whole local state as one update
+  destroy: () => void;
+}
+
+export const connectWebsocket = ({
+  serverUrl,
+  room,
+  token,
+  ydoc: doc,
+  WebSocketImpl = WebSocket,
+  onStateChange,
+  onActivity,
+}: WebsocketConnectionOptions): WebsocketConnection => {
+  const url = buildRoomUrl(serverUrl, room, token);
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let destroyed = false;
+  let denied = false;
+
+  // Updates made while disconnected aren't queued; the step 1/2 exchange covers them
+  const send = (message: Uint8Array): boolean => {
+    if (socket && socket.readyState === socket.OPEN) {
+      socket.send(message);
+      return true;
+    }
+    return false;
+  };
+
+  const sendUpdate = (update: Uint8Array) => {
+    if (send(encodeSyncMessage(SYNC_UPDATE, update))) {
+      onActivity?.({ type: 'push' });
+    }
+  };
+
+  const handleMessage = (data: Uint8Array) => {
+    const decoder = decoding.createDecoder(data);
+    const messageType = decoding.readVarUint(decoder);
+
+    if (messageType === MESSAGE_AUTH) {
+      if (decoding.readVarUint(decoder) === AUTH_PERMISSION_DENIED) {
+        const reason = decoding.readVarString(decoder);
+        console.error('[Sync] Server denied access:', reason);
+        onActivity?.({ type: 'error', message: `Server denied access: ${reason}` });
+        denied = true;
+        onStateChange?.('error');
+        socket?.close();
+      }
+      return;
+    }
+    if (messageType !== MESSAGE_SYNC) return;
+
+    const syncType = decoding.readVarUint(decoder);
+    const payload = decoding.readVarUint8Array(decoder);
+    switch (syncType) {
+      case SYNC_STEP_1:
+        send(encodeSyncMessage(SYNC_STEP_2, Y.encodeStateAsUpdate(doc, payload)));
+        break;
+      case SYNC_STEP_2:
+        Y.applyUpdate(doc, payload, ORIGIN);
+        attempts = 0;
+        onActivity?.({ type: 'pull' });
+        onStateChange?.('synced');
+        break;
+      case SYNC_UPDATE:
+        Y.applyUpdate(doc, payload, ORIGIN);
+        onActivity?.({ type: 'pull' });
+        break;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (destroyed || denied || reconnectTimer !== null) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    onStateChange?.('syncing');
+    try {
+      socket = new WebSocketImpl(url);
+    } catch (error) {
+      console.error('[Sync] Invalid sync server URL:', error);
+      onActivity?.({ type: 'error', message: `Invalid sync server URL: ${url}` });
+      onStateChange?.('error');
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      console.log(`[Sync] Connected to ${serverUrl}`);
+      send(encodeSyncMessage(SYNC_STEP_1, Y.encodeStateVector(doc)));
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        handleMessage(new Uint8Array(event.data as ArrayBuffer));
+      } catch (error) {
+        console.error('[Sync] Failed to handle server message:', error);
+        onActivity?.({ type: 'error', message: 'Failed to handle a server message' });
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (destroyed || denied) return;
+      onStateChange?.('offline');
+      scheduleReconnect();
+    };
+    socket.onerror = () => {
+      // onclose follows and schedules the reconnect
+      console.error('[Sync] Connection error');
+      onActivity?.({ type: 'error', message: `Could not connect to ${serverUrl}` });
+    };
+  };
+
+  const handleUpdate = (update: Uint8Array, updateOrigin: unknown) => {
+    if (updateOrigin === ORIGIN) return; // Don't re-sync changes from remote
+    sendUpdate(update);
+  };
+  doc.on('update', handleUpdate);
+
+  connect();
+
+  const destroy = () => {
+    destroyed = true;
+    doc.off('update', handleUpdate);
+    if (reconnectTimer !== null) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    socket?.close();
+    socket = null;
+  };
+
+  const reupload = () => {
+    if (!socket || socket.readyState !== socket.OPEN) {
+      throw new Error('Not connected to the sync server');
+    }
+    sendUpdate(Y.encodeStateAsUpdate(doc));
+  };
+
+  return { reupload, destroy };
+};
+
+let connection: WebsocketConnection | null = null;
+
+export const websocketProvider: SyncProvider = {
+  name: 'Sync server',
+  isConfigured: () => /^wss?:\/\/.+/.test(useSettingsStore.getState().syncServerUrl.trim()),
+  start: async () => {
+    const { syncServerUrl, syncRoom, syncToken } = useSettingsStore.getState();
+    updateDiagnostics({ docId: syncRoom, account: syncServerUrl });
+    connection = connectWebsocket({
+      serverUrl: syncServerUrl,
+      room: syncRoom,
+      token: syncToken || undefined,
+      ydoc,
+      onStateChange: setSyncState,
+      onActivity: recordActivity,
+    });
+  },
+  stop: () => {
+    connection?.destroy();
+    connection = null;
+  },
+  resync: async () => {
+    websocketProvider.stop();
+    await websocketProvider.start();
+  },
+  reupload: async () => {
+    if (!connection) throw new Error('Not connected to the sync server');
+    connection.reupload();
+  },
+};
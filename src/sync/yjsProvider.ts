@@ -1,6 +1,7 @@
 import * as Y from 'yjs';
 import { IndexeddbPersistence } from 'y-indexeddb';
-import type { Block, Task, RightNowList, Break } from '../models';
+import type { Block, BlockEvent, Task, RightNowList, Break, IntervalProgram, SyncedSetting, TaskNote } from '../models';
+import { getBlockDay, getToday } from '../utils/date';
 
 export const ydoc = new Y.Doc();
 
@@ -9,7 +10,10 @@ export const blocksArray = ydoc.getArray<Block>('blocks');
 export const tasksMap = ydoc.getMap<Task>('tasks');
 export const rightNowListsMap = ydoc.getMap<RightNowList>('rightNowLists');
 export const breaksArray = ydoc.getArray<Break>('breaks');
-export const taskNotesMap = ydoc.getMap<string>('taskNotes'); // key: task content, value: notes
+export const legacyTaskNotesMap = ydoc.getMap<string>('taskNotes'); // key: task content; migrated by sync/taskNotes.ts
+export const taskNotesMap = ydoc.getMap<TaskNote>('taskNotesById'); // key: see taskNoteKey in sync/taskNotes.ts
+export const programsMap = ydoc.getMap<IntervalProgram>('programs');
+export const settingsMap = ydoc.getMap<SyncedSetting>('settings'); // key: setting name
 
 let localPersistence: IndexeddbPersistence | null = null;
 
@@ -47,13 +51,19 @@ export const updateBlock = (id: string, updates: Partial<Block>) => {
   }
 };
 
+export const appendBlockEvent = (id: string, event: BlockEvent) => {
+  const block = blocksArray.toArray().find(b => b.id === id);
+  if (block) {
+    updateBlock(id, { events: [...(block.events || []), event] });
+  }
+};
+
 export const getBlocksForDate = (date: string): Block[] => {
-  return blocksArray.toArray().filter(b => b.date === date);
+  return blocksArray.toArray().filter(b => getBlockDay(b) === date);
 };
 
 export const getTodayBlocks = (): Block[] => {
-  const today = new Date().toISOString().split('T')[0];
-  return getBlocksForDate(today);
+  return getBlocksForDate(getToday());
 };
 
 export const getValidBlockCount = (date: string): number => {
@@ -76,8 +86,11 @@ export const deleteTask = (id: string) => {
   tasksMap.delete(id);
 };
 
+// In list order - see Task.order
 export const getTasks = (): Task[] => {
-  return Array.from(tasksMap.values());
+  return Array.from(tasksMap.values()).sort(
+    (a, b) => (a.order ?? a.createdAt) - (b.order ?? b.createdAt)
+  );
 };
 
 export const getIncompleteTasks = (): Task[] => {
@@ -121,6 +134,26 @@ export const updateBreak = (id: string, updates: Partial<Break>) => {
   }
 };
 
+// Interval program operations
+export const addProgram = (program: IntervalProgram) => {
+  programsMap.set(program.id, program);
+};
+
+export const updateProgram = (id: string, updates: Partial<IntervalProgram>) => {
+  const program = programsMap.get(id);
+  if (program) {
+    programsMap.set(id, { ...program, ...updates, modifiedAt: Date.now() });
+  }
+};
+
+export const deleteProgram = (id: string) => {
+  programsMap.delete(id);
+};
+
+export const getPrograms = (): IntervalProgram[] => {
+  return Array.from(programsMap.values()).sort((a, b) => a.createdAt - b.createdAt);
+};
+
 // Subscribe to changes
 export const subscribeToBlocks = (callback: (blocks: Block[]) => void) => {
   const handler = () => callback(blocksArray.toArray());
@@ -146,20 +179,30 @@ export const subscribeToBreaks = (callback: (breaks: Break[]) => void) => {
   return () => breaksArray.unobserve(handler);
 };
 
-// Task notes operations (keyed by task content)
-export const getTaskNotes = (taskContent: string): string | undefined => {
-  return taskNotesMap.get(taskContent);
+export const subscribeToPrograms = (callback: (programs: IntervalProgram[]) => void) => {
+  const handler = () => callback(getPrograms());
+  programsMap.observe(handler);
+  return () => programsMap.unobserve(handler);
 };
 
-export const setTaskNotes = (taskContent: string, notes: string) => {
+// Task notes operations (keyed by task source and id, or by text for free-typed tasks)
+export const getTaskNote = (key: string): TaskNote | undefined => {
+  return taskNotesMap.get(key);
+};
+
+export const setTaskNote = (key: string, title: string, notes: string) => {
   if (notes.trim()) {
-    taskNotesMap.set(taskContent, notes);
+    taskNotesMap.set(key, { notes, title, modifiedAt: Date.now() });
   } else {
-    taskNotesMap.delete(taskContent);
+    taskNotesMap.delete(key);
   }
 };
 
-export const subscribeToTaskNotes = (callback: (notes: Map<string, string>) => void) => {
+export const deleteTaskNote = (key: string) => {
+  taskNotesMap.delete(key);
+};
+
+export const subscribeToTaskNotes = (callback: (notes: Map<string, TaskNote>) => void) => {
   const handler = () => callback(new Map(taskNotesMap.entries()));
   taskNotesMap.observe(handler);
   return () => taskNotesMap.unobserve(handler);
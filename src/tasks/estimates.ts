@@ -0,0 +1,66 @@
+import { getDayKey, getStartOfWeek } from '../utils/date';
+import type { TaskSource } from '../models';
+
+/**
+ * Estimated blocks against blocks actually spent
+ *
+ * Sanjou tasks carry estimatedBlocks, compared with the blocks logged
+ * against them. Subete's `time` is a remaining estimate in Subete's own
+ * units, so Subete tasks are left out.
+ */
+
+export interface EstimateProgress {
+  estimated: number;
+  actual: number; // blocks finished so far
+}
+
+// A finished task with an estimate - one data point for accuracy
+export interface EstimateSample {
+  key: string; // `source:id`
+  source: TaskSource;
+  title: string;
+  estimated: number;
+  actual: number;
+  finishedAt: number;
+}
+
+export interface EstimateAccuracy {
+  samples: EstimateSample[]; // most recently finished first
+  averageRatio: number; // actual / estimated; 1 is spot on, above 1 is over
+  withinEstimate: number; // share of tasks done in their estimate or less
+  byWeek: { week: string; count: number; averageRatio: number }[]; // oldest first
+}
+
+export const isOverEstimate = ({ estimated, actual }: EstimateProgress): boolean =>
+  estimated > 0 && actual > estimated;
+
+// "block 3 of est. 5" - counts the block in progress, or the next one
+export const describeEstimate = (progress: EstimateProgress, current: number): string => {
+  const over = current - progress.estimated;
+  return over > 0
+    ? `block ${current} of est. ${progress.estimated} (${over} over)`
+    : `block ${current} of est. ${progress.estimated}`;
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export const summarizeEstimates = (samples: EstimateSample[]): EstimateAccuracy => {
+  const sorted = [...samples].sort((a, b) => b.finishedAt - a.finishedAt);
+  const ratios = sorted.map((sample) => sample.actual / sample.estimated);
+
+  const weeks = new Map<string, number[]>();
+  sorted.forEach((sample, index) => {
+    const week = getStartOfWeek(getDayKey(sample.finishedAt));
+    weeks.set(week, [...(weeks.get(week) ?? []), ratios[index]]);
+  });
+
+  return {
+    samples: sorted,
+    averageRatio: average(ratios),
+    withinEstimate: sorted.length > 0 ? ratios.filter((ratio) => ratio <= 1).length / sorted.length : 0,
+    byWeek: Array.from(weeks.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, weekRatios]) => ({ week, count: weekRatios.length, averageRatio: average(weekRatios) })),
+  };
+};
@@ -0,0 +1,121 @@
+import { readTextFile } from '@tauri-apps/plugin-fs';
+import { useSettingsStore } from '../store/settingsStore';
+import { writeTextFileAtomic } from '../sync/safeFile';
+import { createTextFileSource } from './textFileSource';
+import { TaskProvider, PickableTask, TaskGroup, searchList, extractTags } from './taskProvider';
+
+/**
+ * Markdown checklist - `- [ ] task` items in a file of the user's choosing
+ *
+ * Items under a heading named Today, In Progress or Sprint go in that
+ * section of the picker; everything else is just open. An item's id is its
+ * text (plus a counter for repeats), so it survives edits elsewhere in the file.
+ */
+
+const CHECKBOX_PATTERN = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.*)$/;
+
+const getPath = () => useSettingsStore.getState().markdownTasksPath;
+const file = createTextFileSource('Markdown', getPath);
+
+const headingGroup = (heading: string): TaskGroup => {
+  const name = heading.trim().toLowerCase();
+  if (name === 'today') return 'today';
+  if (name === 'in progress' || name === 'doing') return 'in_progress';
+  if (name === 'sprint' || name === 'this week') return 'sprint';
+  return 'open';
+};
+
+interface ChecklistItem {
+  id: string;
+  line: number;
+  text: string;
+  done: boolean;
+  group: TaskGroup;
+}
+
+export const parseChecklist = (content: string): ChecklistItem[] => {
+  const items: ChecklistItem[] = [];
+  const seen = new Map<string, number>();
+  let group: TaskGroup = 'open';
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      group = headingGroup(heading[1]);
+      return;
+    }
+    const match = line.match(CHECKBOX_PATTERN);
+    if (!match) return;
+
+    const text = match[4].trim();
+    const repeat = seen.get(text) ?? 0;
+    seen.set(text, repeat + 1);
+    items.push({
+      id: repeat ? `${text}|${repeat}` : text,
+      line: index,
+      text,
+      done: match[2] !== ' ',
+      group,
+    });
+  });
+  return items;
+};
+
+// Tick an open item, keeping every line's own ending; null if it is not there
+export const checkOffItem = (content: string, id: string): string | null => {
+  const item = parseChecklist(content).find((candidate) => candidate.id === id && !candidate.done);
+  if (!item) return null;
+  // Odd entries are the line endings, so line n is at 2n
+  const parts = content.split(/(\r?\n)/);
+  parts[item.line * 2] = parts[item.line * 2].replace(CHECKBOX_PATTERN, '$1x$3$4');
+  return parts.join('');
+};
+
+const list = async (): Promise<PickableTask[]> => {
+  const content = await file.read();
+  if (!content) return [];
+  return parseChecklist(content)
+    .filter((item) => !item.done)
+    .map((item) => ({
+      source: 'markdown',
+      id: item.id,
+      title: item.text,
+      group: item.group,
+      tags: extractTags(item.text),
+    }));
+};
+
+export const markdownTaskProvider: TaskProvider = {
+  source: 'markdown',
+  label: 'Markdown',
+  readOnly: false,
+  isEnabled: () => getPath().trim() !== '',
+  list,
+  has: async (id) => {
+    const content = await file.read();
+    return !!content && parseChecklist(content).some((item) => item.id === id);
+  },
+  search: searchList(list),
+  subscribe: file.subscribe,
+
+  // A checklist has nowhere to put time
+  recordTime: async () => {},
+
+  complete: async (id) => {
+    const path = getPath().trim();
+    try {
+      // Fresh read - the cached copy may be behind the editor
+      const content = await readTextFile(path);
+      const updated = checkOffItem(content, id);
+      if (updated === null) {
+        return { success: false, error: 'Item not found in the checklist' };
+      }
+      await writeTextFileAtomic(path, updated);
+      return { success: true };
+    } catch (error) {
+      console.warn('[TaskSources] Failed to check off Markdown item:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update checklist' };
+    }
+  },
+};
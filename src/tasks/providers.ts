@@ -0,0 +1,18 @@
+import { subeteTaskProvider } from './subeteTasks';
+import { sanjouTaskProvider } from './sanjouTasks';
+import { markdownTaskProvider } from './markdownTasks';
+import { taskwarriorTaskProvider } from './taskwarriorTasks';
+import type { TaskProvider } from './taskProvider';
+import type { TaskSource } from '../models';
+
+const PROVIDERS: Record<TaskSource, TaskProvider> = {
+  subete: subeteTaskProvider,
+  sanjou: sanjouTaskProvider,
+  markdown: markdownTaskProvider,
+  taskwarrior: taskwarriorTaskProvider,
+};
+
+// Picker order: within a section, tasks are listed by source in this order
+export const TASK_PROVIDERS: TaskProvider[] = Object.values(PROVIDERS);
+
+export const getTaskProvider = (source: TaskSource): TaskProvider => PROVIDERS[source];
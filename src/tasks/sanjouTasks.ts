@@ -0,0 +1,40 @@
+import { getIncompleteTasks, subscribeToTasks, tasksMap, updateTask } from '../sync/yjsProvider';
+import { TaskProvider, PickableTask, searchList, extractTags } from './taskProvider';
+
+// Sanjou's own tasks, from the Yjs doc, in the order the Tasks view keeps them
+const list = async (): Promise<PickableTask[]> =>
+  getIncompleteTasks()
+    .map((task) => ({
+      source: 'sanjou',
+      id: task.id,
+      title: task.title,
+      group: 'open',
+      tags: extractTags(task.title),
+    }));
+
+export const sanjouTaskProvider: TaskProvider = {
+  source: 'sanjou',
+  label: 'Sanjou',
+  readOnly: false,
+  isEnabled: () => true,
+  list,
+  has: async (id) => tasksMap.has(id),
+  search: searchList(list),
+  subscribe: (onChange) => subscribeToTasks(() => onChange()),
+
+  // Tasks count blocks rather than minutes
+  recordTime: async (id) => {
+    const task = tasksMap.get(id);
+    if (task) {
+      updateTask(id, { blocksSpent: task.blocksSpent + 1 });
+    }
+  },
+
+  complete: async (id) => {
+    if (!tasksMap.has(id)) {
+      return { success: false, error: 'Task no longer exists' };
+    }
+    updateTask(id, { completed: true, completedAt: Date.now() });
+    return { success: true };
+  },
+};
@@ -0,0 +1,50 @@
+import { useSubeteTasksStore } from '../store/subeteTasksStore';
+import { acquireSubeteTasks } from '../sync/subeteTaskSource';
+import { sendSubeteCommand } from '../sync/subeteCommands';
+import { recordCompletion } from '../sync/completionSync';
+import { filterTasksByStatus, sortTasksByPriority } from '../hooks/useSubeteTasks';
+import { TaskProvider, PickableTask, TaskGroup, searchList } from './taskProvider';
+
+// Statuses worth picking from, mapped onto picker sections
+const ACTIONABLE_STATUSES: TaskGroup[] = ['in_progress', 'today', 'sprint'];
+
+// Subete's tasks, from the shared tasks.json
+const list = async (): Promise<PickableTask[]> => {
+  const tasks = filterTasksByStatus(useSubeteTasksStore.getState().tasks, ACTIONABLE_STATUSES);
+  return sortTasksByPriority(tasks).map((task) => ({
+    source: 'subete',
+    id: task.id,
+    title: task.content,
+    group: task.status as TaskGroup,
+    tags: task.tags,
+    value: task.value,
+    time: task.time,
+  }));
+};
+
+export const subeteTaskProvider: TaskProvider = {
+  source: 'subete',
+  label: 'Subete',
+  readOnly: false,
+  isEnabled: () => true,
+  list,
+  has: async (id) => useSubeteTasksStore.getState().tasks.some((task) => task.id === id),
+  search: searchList(list),
+
+  subscribe: (onChange) => {
+    const release = acquireSubeteTasks();
+    const unsubscribe = useSubeteTasksStore.subscribe((state, prev) => {
+      if (state.tasks !== prev.tasks) onChange();
+    });
+    return () => {
+      unsubscribe();
+      release();
+    };
+  },
+
+  recordTime: async (id, minutes, blockId) => {
+    recordCompletion(id, minutes, blockId);
+  },
+
+  complete: (id) => sendSubeteCommand({ type: 'mark_done', taskId: id }),
+};
@@ -0,0 +1,66 @@
+import type { TaskRef, TaskSource } from '../models';
+
+/**
+ * Task sources for the block picker
+ *
+ * Each provider adapts one place tasks live - Sanjou's own tasks, Subete's
+ * shared file, a Markdown checklist, a Taskwarrior export - to one shape.
+ * Providers are read on demand and tell subscribers when to read again;
+ * subscribing is also what keeps any file watching running.
+ */
+
+const TASK_SOURCES: TaskSource[] = ['sanjou', 'subete', 'markdown', 'taskwarrior'];
+
+// `source:id` - how blocks and task notes store a task
+export const formatTaskRef = (ref: TaskRef): string => `${ref.source}:${ref.id}`;
+
+export const parseTaskRef = (value: string): TaskRef | null => {
+  const separator = value.indexOf(':');
+  const source = value.slice(0, separator) as TaskSource;
+  return separator > 0 && TASK_SOURCES.includes(source) ? { source, id: value.slice(separator + 1) } : null;
+};
+
+// Picker sections, in display order
+export type TaskGroup = 'in_progress' | 'today' | 'sprint' | 'open';
+
+export const TASK_GROUPS: TaskGroup[] = ['in_progress', 'today', 'sprint', 'open'];
+
+export interface PickableTask {
+  source: TaskSource;
+  id: string; // the source's own id
+  title: string;
+  group: TaskGroup;
+  tags?: string[];
+  value?: number; // Subete's value/time estimate
+  time?: number;
+}
+
+export interface TaskProvider {
+  source: TaskSource;
+  label: string; // source badge in the picker
+  readOnly: boolean; // complete() always fails, so don't offer it
+  isEnabled: () => boolean;
+  list: () => Promise<PickableTask[]>; // open tasks, best first
+  has: (id: string) => Promise<boolean>; // in any status, finished included
+  search: (query: string) => Promise<PickableTask[]>;
+  subscribe: (onChange: () => void) => () => void;
+  recordTime: (id: string, minutes: number, blockId: string) => Promise<void>;
+  complete: (id: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+// Title and tag match, case-insensitive
+export const matchesTaskQuery = (task: PickableTask, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return task.title.toLowerCase().includes(q) ||
+    (task.tags ?? []).some((tag) => tag.toLowerCase().includes(q));
+};
+
+// Default search: filter the provider's own list
+export const searchList = (list: () => Promise<PickableTask[]>) =>
+  async (query: string): Promise<PickableTask[]> =>
+    (await list()).filter((task) => matchesTaskQuery(task, query));
+
+// Tags written inline as #tag
+export const extractTags = (text: string): string[] =>
+  Array.from(text.matchAll(/(?:^|\s)#([\w-]+)/g), (match) => match[1]);
@@ -0,0 +1,78 @@
+import { useSettingsStore } from '../store/settingsStore';
+import { createTextFileSource } from './textFileSource';
+import { TaskProvider, PickableTask, searchList } from './taskProvider';
+
+/**
+ * Taskwarrior - the JSON written by `task export`
+ *
+ * The export is a snapshot, so this source is read-only: refresh it with
+ * `task export > file` (a cron job or hook works) and finish tasks with
+ * `task done`. Started tasks show as in progress; the rest by urgency.
+ */
+
+interface TaskwarriorTask {
+  uuid: string;
+  description: string;
+  status: string;
+  tags?: string[];
+  project?: string;
+  urgency?: number;
+  start?: string;
+}
+
+const getPath = () => useSettingsStore.getState().taskwarriorExportPath;
+const file = createTextFileSource('Taskwarrior', getPath);
+
+const isTaskwarriorTask = (value: unknown): value is TaskwarriorTask => {
+  const task = value as TaskwarriorTask;
+  return typeof task === 'object' && task !== null &&
+    typeof task.uuid === 'string' && typeof task.description === 'string' && typeof task.status === 'string';
+};
+
+// Every task in the export, whatever its status
+const readExport = (content: string): TaskwarriorTask[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    console.warn('[TaskSources] Taskwarrior export is not valid JSON:', error);
+    return [];
+  }
+  return Array.isArray(data) ? data.filter(isTaskwarriorTask) : [];
+};
+
+export const parseTaskwarriorExport = (content: string): PickableTask[] =>
+  readExport(content)
+    .filter((task) => task.status === 'pending')
+    .sort((a, b) => (b.urgency ?? 0) - (a.urgency ?? 0))
+    .map((task) => ({
+      source: 'taskwarrior',
+      id: task.uuid,
+      title: task.description,
+      group: task.start ? 'in_progress' : 'open',
+      tags: [
+        ...(task.project ? [task.project] : []),
+        ...(Array.isArray(task.tags) ? task.tags.filter((tag) => typeof tag === 'string') : []),
+      ],
+    }));
+
+const list = async (): Promise<PickableTask[]> => {
+  const content = await file.read();
+  return content ? parseTaskwarriorExport(content) : [];
+};
+
+export const taskwarriorTaskProvider: TaskProvider = {
+  source: 'taskwarrior',
+  label: 'Taskwarrior',
+  readOnly: true,
+  isEnabled: () => getPath().trim() !== '',
+  list,
+  has: async (id) => {
+    const content = await file.read();
+    return !!content && readExport(content).some((task) => task.uuid === id);
+  },
+  search: searchList(list),
+  subscribe: file.subscribe,
+  recordTime: async () => {},
+  complete: async () => ({ success: false, error: 'Taskwarrior exports are read-only - use `task done`' }),
+};
@@ -0,0 +1,96 @@
+import { readTextFile, watch, UnwatchFn } from '@tauri-apps/plugin-fs';
+import { basename, dirname } from '@tauri-apps/api/path';
+import { useSettingsStore } from '../store/settingsStore';
+
+const WATCH_DEBOUNCE_MS = 300;
+const POLL_INTERVAL_MS = 10000;
+
+export interface TextFileSource {
+  read: () => Promise<string | null>; // null if no path is set or the file can't be read
+  subscribe: (onChange: () => void) => () => void;
+}
+
+/**
+ * A user-chosen text file, cached and watched while subscribed
+ * The path comes from settings, so changing it re-reads and re-watches.
+ */
+export const createTextFileSource = (name: string, getPath: () => string): TextFileSource => {
+  let cached: { path: string; content: string | null } | null = null;
+
+  const read = async (): Promise<string | null> => {
+    const path = getPath().trim();
+    if (!path) return null;
+    if (cached?.path === path) return cached.content;
+
+    let content: string | null = null;
+    try {
+      content = await readTextFile(path);
+    } catch (error) {
+      console.warn(`[TaskSources] Failed to read ${name} file:`, error);
+    }
+    cached = { path, content };
+    return content;
+  };
+
+  const subscribe = (onChange: () => void) => {
+    let watchedPath = getPath().trim();
+    let unwatch: UnwatchFn | null = null;
+    let pollInterval: number | null = null;
+    // Bumped on stop so a watch that resolves late is dropped
+    let generation = 0;
+
+    const changed = () => {
+      cached = null;
+      onChange();
+    };
+
+    // Watch the directory: editors often save by replacing the file
+    const start = async () => {
+      const startedGeneration = generation;
+      if (!watchedPath) return;
+      try {
+        const fileName = await basename(watchedPath);
+        const stopWatch = await watch(await dirname(watchedPath), (event) => {
+          if (event.paths.some((eventPath) => eventPath.endsWith(fileName))) changed();
+        }, { delayMs: WATCH_DEBOUNCE_MS });
+        if (startedGeneration === generation) {
+          unwatch = stopWatch;
+        } else {
+          stopWatch();
+        }
+      } catch (error) {
+        console.warn(`[TaskSources] Can't watch ${name} file, polling instead:`, error);
+        if (startedGeneration === generation) {
+          pollInterval = window.setInterval(changed, POLL_INTERVAL_MS);
+        }
+      }
+    };
+
+    const stop = () => {
+      generation++;
+      unwatch?.();
+      unwatch = null;
+      if (pollInterval !== null) {
+        clearInterval(pollInterval);
+        pollInterval = null;
+      }
+    };
+
+    start();
+    const unsubscribeSettings = useSettingsStore.subscribe(() => {
+      const path = getPath().trim();
+      if (path === watchedPath) return;
+      watchedPath = path;
+      stop();
+      changed();
+      start();
+    });
+
+    return () => {
+      unsubscribeSettings();
+      stop();
+    };
+  };
+
+  return { read, subscribe };
+};
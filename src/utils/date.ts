@@ -0,0 +1,69 @@
+/**
+ * Day bucketing in the user's local timezone.
+ *
+ * Day keys are YYYY-MM-DD strings for the local calendar day. A day begins
+ * at the configurable `dayStartHour`, so a block started at 1am can still
+ * count toward the previous evening.
+ */
+
+import { useSettingsStore } from '../store/settingsStore';
+import type { Block } from '../models';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+/**
+ * Format a Date as a local YYYY-MM-DD key (no day-start shift)
+ */
+export const toDayKey = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Parse a day key into local midnight of that day
+ */
+export const parseDayKey = (dayKey: string): Date => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getDayStartHour = (): number => useSettingsStore.getState().dayStartHour;
+
+/**
+ * Day key a timestamp belongs to, honouring the day-start hour
+ */
+export const getDayKey = (timestamp: number, dayStartHour = getDayStartHour()): string => {
+  return toDayKey(new Date(timestamp - dayStartHour * HOUR_MS));
+};
+
+export const getToday = (): string => getDayKey(Date.now());
+
+/**
+ * Day a block counts toward - always from its start time, never the stored
+ * `date`, which older builds wrote in UTC and which ignores later changes to
+ * the day-start hour
+ */
+export const getBlockDay = (block: Block, dayStartHour = getDayStartHour()): string => {
+  return getDayKey(block.startedAt, dayStartHour);
+};
+
+/**
+ * Move a day key forward or back by whole calendar days
+ */
+export const addDays = (dayKey: string, days: number): string => {
+  const date = parseDayKey(dayKey);
+  date.setDate(date.getDate() + days);
+  return toDayKey(date);
+};
+
+/**
+ * First day (Sunday) of the week containing the day key
+ */
+export const getStartOfWeek = (dayKey: string): string => {
+  return addDays(dayKey, -parseDayKey(dayKey).getDay());
+};
+
+export const getStartOfMonth = (dayKey: string): string => {
+  return `${dayKey.slice(0, 8)}01`;
+};
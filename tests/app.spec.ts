@@ -211,6 +211,22 @@ test.describe('Sanjou App', () => {
       await page.keyboard.press('Alt+Enter');
       await expect(page.locator('.timer-label')).toContainText('Focus');
     });
+
+    test('should discard a flowtime block stopped under a minute', async ({ page }) => {
+      await page.locator('.mode-option', { hasText: 'Flowtime' }).click();
+      const checkboxes = page.locator('.section-box .checkbox');
+      for (const checkbox of await checkboxes.all()) {
+        await checkbox.click();
+      }
+
+      await page.locator('.start-btn').click();
+      await page.locator('.stop-btn').click();
+
+      // Back to idle, not the completed view, and nothing added to today's tally
+      await expect(page.locator('.idle-view')).toBeVisible();
+      await expect(page.locator('.completed-view')).not.toBeVisible();
+      await expect(page.locator('.sidebar-tally')).toHaveText('0');
+    });
   });
 
   test.describe('Mark Interrupted', () => {
@@ -395,6 +411,76 @@ test.describe('Sanjou App', () => {
     });
   });
 
+  test.describe('Tasks View', () => {
+    test.beforeEach(async ({ page }) => {
+      await page.locator('.sidebar-header').click();
+      await page.keyboard.press('Alt+l');
+      await expect(page.locator('.tasks-view')).toBeVisible();
+    });
+
+    test('should add a task and a subtask from the keyboard', async ({ page }) => {
+      await page.keyboard.press('a');
+      await page.locator('.tasks-input').fill('Write report');
+      await page.keyboard.press('Enter');
+      await expect(page.locator('.tasks-row.task')).toContainText('Write report');
+      await expect(page.locator('.tasks-row.task')).toContainText('0 blocks');
+
+      await page.keyboard.press('s');
+      await page.locator('.tasks-input').fill('Outline');
+      await page.keyboard.press('Enter');
+      await expect(page.locator('.tasks-row.subtask')).toContainText('Outline');
+    });
+
+    test('should complete and delete with single keys', async ({ page }) => {
+      await page.keyboard.press('a');
+      await page.locator('.tasks-input').fill('Throwaway');
+      await page.keyboard.press('Enter');
+
+      await page.keyboard.press('x');
+      await expect(page.locator('.tasks-row.task')).toHaveCount(0);
+
+      await page.keyboard.press('c');
+      await expect(page.locator('.tasks-row.completed')).toContainText('Throwaway');
+      await page.keyboard.press('d');
+      await page.keyboard.press('d');
+      await expect(page.locator('.tasks-row')).toHaveCount(0);
+    });
+
+    test('should reorder with Shift+J/K and keep the selection on the moved task', async ({ page }) => {
+      for (const title of ['Alpha', 'Beta']) {
+        await page.keyboard.press('a');
+        await page.locator('.tasks-input').fill(title);
+        await page.keyboard.press('Enter');
+      }
+      const titles = page.locator('.tasks-row.task .tasks-row-title');
+      await expect(titles).toHaveText(['Alpha', 'Beta']);
+
+      await page.keyboard.press('Shift+K');
+      await expect(titles).toHaveText(['Beta', 'Alpha']);
+      await expect(page.locator('.tasks-row.selected')).toContainText('Beta');
+
+      await page.keyboard.press('Shift+J');
+      await expect(titles).toHaveText(['Alpha', 'Beta']);
+      await expect(page.locator('.tasks-row.selected')).toContainText('Beta');
+    });
+
+    test('should start a block on the selected task', async ({ page }) => {
+      await page.keyboard.press('a');
+      await page.locator('.tasks-input').fill('Deep work');
+      await page.keyboard.press('Enter');
+
+      await page.keyboard.press('b');
+      await expect(page.locator('.block-view')).toBeVisible();
+      await expect(page.locator('.task-input')).toHaveValue('Deep work');
+    });
+
+    test('should close with Escape key', async ({ page }) => {
+      await page.keyboard.press('Escape');
+      await expect(page.locator('.tasks-view')).not.toBeVisible();
+      await expect(page.locator('.block-view')).toBeVisible();
+    });
+  });
+
   test.describe('Shortcut Hints', () => {
     test('should show idle hints when timer is idle', async ({ page }) => {
       await expect(page.locator('.footer-hints')).toBeVisible();
@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test';
+import { summarizeEstimates, describeEstimate, isOverEstimate, EstimateSample } from '../src/tasks/estimates';
+
+test.describe('Task estimates', () => {
+  const sample = (key: string, estimated: number, actual: number, finishedAt: string): EstimateSample => ({
+    key,
+    source: 'sanjou',
+    title: key,
+    estimated,
+    actual,
+    finishedAt: new Date(finishedAt).getTime(),
+  });
+
+  test('describes progress and overruns', () => {
+    expect(describeEstimate({ estimated: 5, actual: 2 }, 3)).toBe('block 3 of est. 5');
+    expect(describeEstimate({ estimated: 2, actual: 2 }, 3)).toBe('block 3 of est. 2 (1 over)');
+    expect(isOverEstimate({ estimated: 2, actual: 2 })).toBe(false);
+    expect(isOverEstimate({ estimated: 2, actual: 3 })).toBe(true);
+  });
+
+  test('summarizes accuracy overall and by week', () => {
+    const summary = summarizeEstimates([
+      sample('a', 4, 2, '2025-03-04T12:00:00'),
+      sample('b', 2, 4, '2025-03-05T12:00:00'),
+      sample('c', 3, 3, '2025-03-20T12:00:00'),
+    ]);
+    expect(summary.samples.map((s) => s.key)).toEqual(['c', 'b', 'a']);
+    expect(summary.averageRatio).toBeCloseTo((0.5 + 2 + 1) / 3);
+    expect(summary.withinEstimate).toBeCloseTo(2 / 3);
+    expect(summary.byWeek.map((week) => week.count)).toEqual([2, 1]);
+    expect(summary.byWeek[0].averageRatio).toBeCloseTo(1.25);
+  });
+
+  test('is empty without samples', () => {
+    expect(summarizeEstimates([])).toEqual({ samples: [], averageRatio: 0, withinEstimate: 0, byWeek: [] });
+  });
+});
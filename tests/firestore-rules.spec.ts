@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+import { initializeApp, deleteApp, FirebaseApp } from 'firebase/app';
+import {
+  getFirestore,
+  connectFirestoreEmulator,
+  doc,
+  collection,
+  getDoc,
+  getDocs,
+  setDoc,
+  addDoc,
+  deleteDoc,
+  Firestore,
+} from 'firebase/firestore';
+
+// Runs against the Firestore emulator with firestore.rules loaded, e.g.
+//   firebase emulators:exec --only firestore "npx playwright test firestore-rules"
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const SHARED_DOC_ID = 'sanjou-sync-anonymous';
+
+type Identity = { uid: string; anonymous?: boolean } | null;
+
+test.describe('Firestore rules', () => {
+  test.skip(!emulatorHost, 'FIRESTORE_EMULATOR_HOST is not set');
+
+  const apps: FirebaseApp[] = [];
+  let appCount = 0;
+
+  const connect = (identity: Identity): Firestore => {
+    const app = initializeApp({ projectId: 'demo-sanjou', apiKey: 'demo' }, `rules-${appCount++}`);
+    apps.push(app);
+    const db = getFirestore(app);
+    const [host, port] = emulatorHost!.split(':');
+    connectFirestoreEmulator(db, host, parseInt(port), identity
+      ? {
+          mockUserToken: {
+            user_id: identity.uid,
+            firebase: { sign_in_provider: identity.anonymous ? 'anonymous' : 'password', identities: {} },
+          },
+        }
+      : {});
+    return db;
+  };
+
+  // A rejection fails the test with the Firestore error
+  const allowed = async (operation: Promise<unknown>) => {
+    await operation;
+  };
+
+  const denied = async (operation: Promise<unknown>) => {
+    await expect(operation).rejects.toMatchObject({ code: 'permission-denied' });
+  };
+
+  test.afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => deleteApp(app)));
+  });
+
+  test('users can read and write their own sync doc', async () => {
+    const uid = `owner-${Date.now()}`;
+    const db = connect({ uid });
+    const ref = doc(db, 'sync', uid);
+
+    await allowed(setDoc(ref, { snapshot: 'AA==' }));
+    await allowed(getDoc(ref));
+    await allowed(setDoc(ref, { snapshot: 'AQ==' }, { merge: true }));
+    await allowed(setDoc(doc(ref, 'snapshots', 'gen_0'), { data: 'AA==' }));
+    await allowed(getDoc(doc(ref, 'snapshots', 'gen_0')));
+    await allowed(deleteDoc(doc(ref, 'snapshots', 'gen_0')));
+    await allowed(deleteDoc(ref));
+  });
+
+  test('anonymous-auth users get their own doc too', async () => {
+    const uid = `anon-${Date.now()}`;
+    const db = connect({ uid, anonymous: true });
+
+    await allowed(setDoc(doc(db, 'sync', uid), { snapshot: 'AA==' }));
+    await allowed(addDoc(collection(db, 'sync', uid, 'updates'), { update: 'AA==' }));
+    await denied(getDoc(doc(db, 'sync', `someone-else-${Date.now()}`)));
+  });
+
+  test("users cannot touch another user's doc", async () => {
+    const owner = `owner-${Date.now()}`;
+    await allowed(setDoc(doc(connect({ uid: owner }), 'sync', owner), { snapshot: 'AA==' }));
+
+    const other = connect({ uid: `other-${Date.now()}` });
+    const ref = doc(other, 'sync', owner);
+    await denied(getDoc(ref));
+    await denied(setDoc(ref, { snapshot: 'AQ==' }));
+    await denied(deleteDoc(ref));
+    await denied(getDoc(doc(ref, 'snapshots', 'gen_0')));
+    await denied(getDocs(collection(ref, 'updates')));
+    await denied(addDoc(collection(ref, 'updates'), { update: 'AA==' }));
+  });
+
+  test('signed-out clients are denied everywhere', async () => {
+    const uid = `owner-${Date.now()}`;
+    const db = connect(null);
+
+    await denied(getDoc(doc(db, 'sync', uid)));
+    await denied(setDoc(doc(db, 'sync', uid), { snapshot: 'AA==' }));
+    await denied(getDocs(collection(db, 'sync', uid, 'updates')));
+    await denied(addDoc(collection(db, 'sync', uid, 'updates'), { update: 'AA==' }));
+  });
+
+  test('update log entries are append-only', async () => {
+    const uid = `owner-${Date.now()}`;
+    const db = connect({ uid });
+    const updates = collection(db, 'sync', uid, 'updates');
+
+    const entry = await addDoc(updates, { update: 'AA==' });
+    await allowed(getDocs(updates));
+    await denied(setDoc(entry, { update: 'AQ==' }));
+    await allowed(deleteDoc(entry));
+  });
+
+  test('the old shared anonymous doc is closed', async () => {
+    for (const identity of [null, { uid: `user-${Date.now()}` }, { uid: `anon-${Date.now()}`, anonymous: true }]) {
+      const db = connect(identity);
+      const ref = doc(db, 'sync', SHARED_DOC_ID);
+      await denied(getDoc(ref));
+      await denied(setDoc(ref, { snapshot: 'AA==' }));
+      await denied(getDocs(collection(ref, 'updates')));
+      await denied(addDoc(collection(ref, 'updates'), { update: 'AA==' }));
+    }
+  });
+});
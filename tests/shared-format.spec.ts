@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import {
+  parseSharedFile,
+  serializeSharedFile,
+  validateTask,
+  validateCompletion,
+  validateCommand,
+  isNewerVersion,
+  SHARED_FORMAT_VERSION,
+} from '../src/sync/sharedFormat';
+
+test.describe('Subete shared file format', () => {
+  const task = { id: 't1', content: 'Write report', status: 'today', value: 3, time: 2 };
+
+  test('reads a bare array as version 0', () => {
+    const file = parseSharedFile(JSON.stringify([task]), 'tasks', validateTask);
+    expect(file.version).toBe(0);
+    expect(file.rows).toEqual([task]);
+  });
+
+  test('skips malformed rows and keeps the rest', () => {
+    const content = JSON.stringify({
+      version: 1,
+      tasks: [task, { id: 't2', status: 'today', value: 1, time: 1 }, { ...task, id: 't3', value: '5' }, null],
+    });
+    const file = parseSharedFile(content, 'tasks', validateTask);
+    expect(file.rows.map(row => row.id)).toEqual(['t1']);
+    expect(file.skipped).toEqual([
+      { index: 1, id: 't2', reason: 'missing content' },
+      { index: 2, id: 't3', reason: 'value is not a number' },
+      { index: 3, id: undefined, reason: 'not an object' },
+    ]);
+    expect(file.rawRows).toHaveLength(4);
+  });
+
+  test('drops bad tags without dropping the task', () => {
+    const result = validateTask({ ...task, tags: [1, 2] });
+    expect(result).toEqual(task);
+  });
+
+  test('keeps unknown fields on rows and the envelope', () => {
+    const content = JSON.stringify({
+      version: SHARED_FORMAT_VERSION + 1,
+      writer: 'subete',
+      tasks: [{ ...task, energy: 'high' }],
+    });
+    const file = parseSharedFile(content, 'tasks', validateTask);
+    expect(isNewerVersion(file.version)).toBe(true);
+    expect(file.rows[0]).toMatchObject({ energy: 'high' });
+    expect(file.extra).toEqual({ writer: 'subete' });
+  });
+
+  test('throws only when the file is neither format', () => {
+    expect(() => parseSharedFile('{"tasks": []}', 'tasks', validateTask)).toThrow();
+    expect(() => parseSharedFile('not json', 'tasks', validateTask)).toThrow();
+  });
+
+  test('round-trips completions, including rows it cannot read', () => {
+    const completion = { taskId: 't1', completedAt: '2025-01-01T10:00:00.000Z', duration: 25 };
+    const unreadable = { taskId: 't2', completedAt: 'yesterday', duration: 25 };
+    const content = serializeSharedFile('completions', [completion, unreadable], { writer: 'subete' });
+
+    const file = parseSharedFile(content, 'completions', validateCompletion);
+    expect(file.version).toBe(SHARED_FORMAT_VERSION);
+    expect(file.rows).toEqual([completion]);
+    expect(file.skipped[0].reason).toBe('completedAt is not a date');
+    expect(JSON.parse(serializeSharedFile('completions', file.rawRows, file.extra))).toEqual(JSON.parse(content));
+  });
+
+  test('validates each command type', () => {
+    const base = { id: 'c1', taskId: 't1', issuedAt: '2025-01-01T10:00:00.000Z' };
+    expect(validateCommand({ ...base, type: 'mark_done' })).toMatchObject({ type: 'mark_done' });
+    expect(validateCommand({ ...base, type: 'set_status', status: 'in_progress' })).toMatchObject({ status: 'in_progress' });
+    expect(validateCommand({ ...base, type: 'set_status' })).toBe('missing status');
+    expect(validateCommand({ ...base, type: 're_estimate', time: -1 })).toBe('time is not a number');
+    expect(validateCommand({ ...base, type: 'archive' })).toBe('unknown command type');
+  });
+});
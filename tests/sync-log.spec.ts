@@ -0,0 +1,145 @@
+import { test, expect } from '@playwright/test';
+import { initializeApp, deleteApp, FirebaseApp } from 'firebase/app';
+import { getFirestore, connectFirestoreEmulator, doc, collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import * as Y from 'yjs';
+import { startUpdateLog, createEncryptedCodec, encodeUpdate, UpdateLog, UpdateCodec } from '../src/sync/updateLog';
+import { createEncryption } from '../src/sync/encryption';
+
+// Runs against the Firestore emulator only, e.g.
+//   firebase emulators:exec --only firestore "npx playwright test sync-log"
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+test.describe('Firestore update log', () => {
+  test.skip(!emulatorHost, 'FIRESTORE_EMULATOR_HOST is not set');
+
+  const apps: FirebaseApp[] = [];
+  const logs: UpdateLog[] = [];
+
+  // Rules only allow a user their own doc, so each client acts as the doc's owner
+  const connect = (name: string, uid: string) => {
+    const app = initializeApp({ projectId: 'demo-sanjou', apiKey: 'demo' }, name);
+    apps.push(app);
+    const db = getFirestore(app);
+    const [host, port] = emulatorHost!.split(':');
+    connectFirestoreEmulator(db, host, parseInt(port), { mockUserToken: { user_id: uid } });
+    return db;
+  };
+
+  const startClient = async (name: string, docId: string, compactThreshold?: number, codec?: UpdateCodec) => {
+    const ydoc = new Y.Doc();
+    const log = (await startUpdateLog({
+      rootRef: doc(connect(name, docId), 'sync', docId),
+      ydoc,
+      clientId: name,
+      compactThreshold,
+      codec,
+    }))!;
+    logs.push(log);
+    return { ydoc, log };
+  };
+
+  const writeItems = (ydoc: Y.Doc, prefix: string, count: number) => {
+    const items = ydoc.getArray<string>('items');
+    for (let i = 0; i < count; i++) {
+      items.push([`${prefix}-${i}`]);
+    }
+  };
+
+  const itemCount = (ydoc: Y.Doc) => ydoc.getArray<string>('items').length;
+
+  test.afterEach(async () => {
+    logs.splice(0).forEach((log) => log.destroy());
+    await Promise.all(apps.splice(0).map((app) => deleteApp(app)));
+  });
+
+  test('concurrent writers lose no updates', async () => {
+    const docId = `concurrent-${Date.now()}`;
+    const a = await startClient('client-a', docId);
+    const b = await startClient('client-b', docId);
+
+    writeItems(a.ydoc, 'a', 50);
+    writeItems(b.ydoc, 'b', 50);
+    await Promise.all([a.log.flush(), b.log.flush()]);
+
+    await expect.poll(() => itemCount(a.ydoc), { timeout: 10000 }).toBe(100);
+    await expect.poll(() => itemCount(b.ydoc), { timeout: 10000 }).toBe(100);
+
+    const fresh = await startClient('client-c', docId);
+    expect(itemCount(fresh.ydoc)).toBe(100);
+  });
+
+  test('compaction keeps updates it has not seen', async () => {
+    const docId = `compaction-${Date.now()}`;
+    const a = await startClient('client-a', docId, 5);
+    const b = await startClient('client-b', docId, 5);
+
+    for (let round = 0; round < 10; round++) {
+      writeItems(a.ydoc, `a${round}`, 3);
+      writeItems(b.ydoc, `b${round}`, 3);
+      await Promise.all([a.log.flush(), b.log.flush()]);
+    }
+    await Promise.all([a.log.compact(), b.log.compact()]);
+
+    const fresh = await startClient('client-c', docId);
+    await expect.poll(() => itemCount(fresh.ydoc), { timeout: 10000 }).toBe(60);
+  });
+
+  test('offline edits are pushed on reconnect', async () => {
+    const docId = `catchup-${Date.now()}`;
+    const online = await startClient('client-a', docId);
+    writeItems(online.ydoc, 'online', 5);
+    await online.log.flush();
+
+    // Edits made before this client connects reach the remote via the state vector diff
+    const offlineDoc = new Y.Doc();
+    writeItems(offlineDoc, 'offline', 5);
+    const log = (await startUpdateLog({
+      rootRef: doc(connect('client-b', docId), 'sync', docId),
+      ydoc: offlineDoc,
+      clientId: 'client-b',
+    }))!;
+    logs.push(log);
+
+    expect(itemCount(offlineDoc)).toBe(10);
+    await expect.poll(() => itemCount(online.ydoc), { timeout: 10000 }).toBe(10);
+  });
+
+  test('snapshots bigger than a document are split into chunks', async () => {
+    const docId = `chunks-${Date.now()}`;
+    const a = await startClient('client-a', docId);
+    // Base64 makes this about 2.7 MB - past Firestore's 1 MiB per document
+    a.ydoc.getText('notes').insert(0, 'x'.repeat(2 * 1024 * 1024));
+    await a.log.compact();
+
+    const fresh = await startClient('client-b', docId);
+    expect(fresh.ydoc.getText('notes').length).toBe(2 * 1024 * 1024);
+  });
+
+  test('unencrypted entries are refused once the log is encrypted', async () => {
+    const docId = `plaintext-${Date.now()}`;
+    const a = await startClient('client-a', docId);
+    writeItems(a.ydoc, 'a', 3);
+    await a.log.flush();
+
+    const { meta, key } = await createEncryption('correct horse');
+    const codec = createEncryptedCodec(meta.keyId, new Map([[meta.keyId, key]]));
+    await a.log.rekey(codec, { encryption: meta });
+
+    // Someone with access to the server appends a plain update
+    const forged = new Y.Doc();
+    writeItems(forged, 'forged', 5);
+    await addDoc(collection(doc(connect('server', docId), 'sync', docId), 'updates'), {
+      update: encodeUpdate(Y.encodeStateAsUpdate(forged)),
+      keyId: null,
+      origin: 'server',
+      createdAt: serverTimestamp(),
+    });
+
+    const fresh = await startClient('client-b', docId, undefined, codec);
+    expect(itemCount(fresh.ydoc)).toBe(3);
+    writeItems(a.ydoc, 'after', 1);
+    await a.log.flush();
+    await expect.poll(() => itemCount(fresh.ydoc), { timeout: 10000 }).toBe(4);
+    expect(itemCount(a.ydoc)).toBe(4);
+  });
+});
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+import * as Y from 'yjs';
+import { connectWebsocket, WebsocketConnection } from '../src/sync/websocketSync';
+
+// Runs against a local y-websocket compatible server, e.g.
+//   HOST=localhost PORT=1234 npx y-websocket &
+//   SYNC_SERVER_URL=ws://localhost:1234 npx playwright test sync-websocket
+const serverUrl = process.env.SYNC_SERVER_URL;
+
+test.describe('Websocket sync provider', () => {
+  test.skip(!serverUrl, 'SYNC_SERVER_URL is not set');
+  test.skip(typeof WebSocket === 'undefined', 'needs a Node version with a global WebSocket');
+
+  const connections: WebsocketConnection[] = [];
+
+  const startClient = (room: string, ydoc = new Y.Doc()) => {
+    connections.push(connectWebsocket({ serverUrl: serverUrl!, room, ydoc }));
+    return ydoc;
+  };
+
+  const writeItems = (ydoc: Y.Doc, prefix: string, count: number) => {
+    const items = ydoc.getArray<string>('items');
+    for (let i = 0; i < count; i++) {
+      items.push([`${prefix}-${i}`]);
+    }
+  };
+
+  const itemCount = (ydoc: Y.Doc) => ydoc.getArray<string>('items').length;
+
+  test.afterEach(() => {
+    connections.splice(0).forEach((connection) => connection.destroy());
+  });
+
+  test('two clients converge', async () => {
+    const room = `converge-${Date.now()}`;
+    const a = startClient(room);
+    const b = startClient(room);
+
+    writeItems(a, 'a', 20);
+    writeItems(b, 'b', 20);
+
+    await expect.poll(() => itemCount(a), { timeout: 10000 }).toBe(40);
+    await expect.poll(() => itemCount(b), { timeout: 10000 }).toBe(40);
+  });
+
+  test('edits made before connecting reach the server', async () => {
+    const room = `catchup-${Date.now()}`;
+    const online = startClient(room);
+    writeItems(online, 'online', 5);
+
+    const offlineDoc = new Y.Doc();
+    writeItems(offlineDoc, 'offline', 5);
+    startClient(room, offlineDoc);
+
+    await expect.poll(() => itemCount(offlineDoc), { timeout: 10000 }).toBe(10);
+    await expect.poll(() => itemCount(online), { timeout: 10000 }).toBe(10);
+  });
+});
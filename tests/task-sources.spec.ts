@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { parseChecklist, checkOffItem } from '../src/tasks/markdownTasks';
+import { parseTaskwarriorExport } from '../src/tasks/taskwarriorTasks';
+import { extractTags, matchesTaskQuery, formatTaskRef, parseTaskRef } from '../src/tasks/taskProvider';
+
+test.describe('Task sources', () => {
+  test('reads Markdown checklist items with their heading section', () => {
+    const items = parseChecklist([
+      '- [ ] Inbox zero',
+      '## Today',
+      '- [ ] Write report #work',
+      '  * [x] Book flights',
+      '- [ ] Write report #work',
+      '# Notes',
+      'Not a task',
+      '+ [ ] Call mum',
+    ].join('\n'));
+
+    expect(items.map(({ id, done, group }) => ({ id, done, group }))).toEqual([
+      { id: 'Inbox zero', done: false, group: 'open' },
+      { id: 'Write report #work', done: false, group: 'today' },
+      { id: 'Book flights', done: true, group: 'today' },
+      { id: 'Write report #work|1', done: false, group: 'today' },
+      { id: 'Call mum', done: false, group: 'open' },
+    ]);
+    expect(items[1].line).toBe(2);
+  });
+
+  test('checks off Markdown items in CRLF files without changing line endings', () => {
+    const content = '# Today\r\n- [ ] Write report\r\n- [ ] Call mum\n- [x] Book flights\r\n';
+    expect(parseChecklist(content).map((item) => item.id)).toEqual(['Write report', 'Call mum', 'Book flights']);
+
+    expect(checkOffItem(content, 'Call mum')).toBe('# Today\r\n- [ ] Write report\r\n- [x] Call mum\n- [x] Book flights\r\n');
+    expect(checkOffItem(content, 'Write report')).toBe('# Today\r\n- [x] Write report\r\n- [ ] Call mum\n- [x] Book flights\r\n');
+    expect(checkOffItem(content, 'Book flights')).toBeNull();
+  });
+
+  test('reads pending Taskwarrior tasks by urgency', () => {
+    const tasks = parseTaskwarriorExport(JSON.stringify([
+      { uuid: 'a', description: 'Low', status: 'pending', urgency: 1 },
+      { uuid: 'b', description: 'Done', status: 'completed', urgency: 9 },
+      { uuid: 'c', description: 'Started', status: 'pending', urgency: 5, start: '20250101T090000Z', project: 'home', tags: ['diy'] },
+      { description: 'No uuid', status: 'pending' },
+    ]));
+
+    expect(tasks.map(({ id, group, tags }) => ({ id, group, tags }))).toEqual([
+      { id: 'c', group: 'in_progress', tags: ['home', 'diy'] },
+      { id: 'a', group: 'open', tags: [] },
+    ]);
+    expect(parseTaskwarriorExport('not json')).toEqual([]);
+  });
+
+  test('matches queries against titles and tags', () => {
+    const task = { source: 'sanjou' as const, id: '1', title: 'Fix the #kitchen tap', group: 'open' as const, tags: extractTags('Fix the #kitchen tap') };
+    expect(task.tags).toEqual(['kitchen']);
+    expect(matchesTaskQuery(task, 'TAP')).toBe(true);
+    expect(matchesTaskQuery(task, 'kitch')).toBe(true);
+    expect(matchesTaskQuery(task, 'garden')).toBe(false);
+  });
+
+  test('round-trips source-qualified task ids', () => {
+    const ref = { source: 'markdown' as const, id: '/notes/todo.md:Call: dentist' };
+    expect(parseTaskRef(formatTaskRef(ref))).toEqual(ref);
+    expect(parseTaskRef('1712000000000-abc123xyz')).toBeNull();
+    expect(parseTaskRef('text:Write report')).toBeNull();
+  });
+});